@@ -1,19 +1,31 @@
-import React, { useState, useEffect } from 'react';
-import { ResearchSource, GeneratedArticle } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ResearchSource, GeneratedArticle, ResearchProject, ProjectSummary, ArticleVersion } from './types';
 import * as GeminiService from './services/geminiService';
+import * as ProjectStore from './services/projectStore';
+import * as ProjectBundle from './services/projectBundle';
+import * as ArticleHistory from './services/articleHistory';
 import InputHopper from './components/InputHopper';
 import ArticleView from './components/ArticleView';
 import ApiKeyModal from './components/ApiKeyModal';
+import ProjectSwitcher from './components/ProjectSwitcher';
 import { Sparkles, AlertTriangle, X, Zap, Layers, Settings, Key } from 'lucide-react';
 
 const App: React.FC = () => {
   const [sources, setSources] = useState<ResearchSource[]>([]);
   const [article, setArticle] = useState<GeneratedArticle | null>(null);
+  const [versions, setVersions] = useState<ArticleVersion[]>([]);
+  const [activeVersionId, setActiveVersionId] = useState<string | undefined>(undefined);
   const [isBlending, setIsBlending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [blendProgress, setBlendProgress] = useState<string>('');
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
   const [hasApiKey, setHasApiKey] = useState(false);
+  const [project, setProject] = useState<ResearchProject | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Project the workspace state belongs to, checked by work that finishes after an await
+  const projectIdRef = useRef<string | null>(null);
 
   // Check for API key on mount
   useEffect(() => {
@@ -24,28 +36,218 @@ const App: React.FC = () => {
     }
   }, []);
 
+  // Restore the last opened project on mount
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const activeId = ProjectStore.getActiveProjectId();
+        const restored = activeId ? await ProjectStore.loadProject(activeId) : null;
+        if (restored) {
+          openProject(restored);
+        } else {
+          const existing = await ProjectStore.listProjects();
+          const latest = existing.length > 0 ? await ProjectStore.loadProject(existing[0].id) : null;
+          openProject(latest || await ProjectStore.saveProject(ProjectStore.createProject()));
+        }
+      } catch (e) {
+        console.error('Failed to restore project', e);
+        // Keep working in memory even if IndexedDB is unavailable
+        openProject(ProjectStore.createProject());
+      }
+    };
+    restore();
+  }, []);
+
+  // Autosave the current project whenever its contents change
+  useEffect(() => {
+    if (!project) return;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      persistProject(currentProject(project));
+    }, 800);
+    return () => {
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    };
+  }, [sources, article, versions, activeVersionId, project]);
+
+  // The project record with the live workspace state merged in
+  const currentProject = (meta: ResearchProject): ResearchProject => ({
+    ...meta,
+    sources,
+    article,
+    versions,
+    activeVersionId
+  });
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await ProjectStore.listProjects());
+    } catch (e) {
+      console.error('Failed to list projects', e);
+    }
+  };
+
+  const persistProject = async (toSave: ResearchProject) => {
+    setIsSaving(true);
+    try {
+      await ProjectStore.saveProject(toSave);
+      await refreshProjects();
+    } catch (e) {
+      console.error('Failed to save project', e);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openProject = (next: ResearchProject) => {
+    projectIdRef.current = next.id;
+    setProject(next);
+    setSources(next.sources);
+    setArticle(next.article);
+    setVersions(next.versions);
+    setActiveVersionId(next.activeVersionId);
+    setError(null);
+    ProjectStore.setActiveProjectId(next.id);
+    refreshProjects();
+  };
+
+  // Write any pending changes before leaving the current project
+  const flushPendingSave = async () => {
+    if (project && saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+      await persistProject(currentProject(project));
+    }
+  };
+
+  const handleSwitchProject = async (id: string) => {
+    await flushPendingSave();
+    try {
+      const next = await ProjectStore.loadProject(id);
+      if (next) openProject(next);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to open project.');
+    }
+  };
+
+  const handleCreateProject = async () => {
+    await flushPendingSave();
+    try {
+      openProject(await ProjectStore.saveProject(ProjectStore.createProject()));
+    } catch (e) {
+      console.error(e);
+      setError('Failed to create project.');
+    }
+  };
+
+  const handleRenameProject = (name: string) => {
+    setProject(prev => prev ? { ...prev, name } : prev);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await ProjectStore.deleteProject(id);
+      await refreshProjects();
+    } catch (e) {
+      console.error(e);
+      setError('Failed to delete project.');
+    }
+  };
+
+  const handleExportProject = async () => {
+    if (!project) return;
+    try {
+      const current = currentProject(project);
+      const bundle = await ProjectBundle.exportProjectBundle(current);
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = ProjectBundle.bundleFileName(current);
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error(e);
+      setError('Failed to export project.');
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    await flushPendingSave();
+    try {
+      const imported = await ProjectBundle.importProjectBundle(file);
+      openProject(await ProjectStore.saveProject(imported));
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Failed to import project.');
+    }
+  };
+
+  // Source updates from extractions started in a project that has since been
+  // closed are dropped; that project restores those sources as interrupted
+  const sourcesSetterFor = (projectId?: string): React.Dispatch<React.SetStateAction<ResearchSource[]>> => action => {
+    if (projectIdRef.current === projectId) setSources(action);
+  };
+
+  // A cover that finishes generating after its project was closed is dropped
+  const articleUpdaterFor = (projectId?: string) => (updates: Partial<GeneratedArticle>) => {
+    if (projectIdRef.current !== projectId) return;
+    setArticle(prev => prev ? { ...prev, ...updates } : prev);
+    // Keep the active version in sync (e.g. a cover generated after blending)
+    setVersions(prev => prev.map(v =>
+      v.id === activeVersionId ? { ...v, article: { ...v.article, ...updates } } : v
+    ));
+  };
+
+  // A blend that finishes after its project was closed is saved to that project
+  const saveBlendToProject = async (projectId: string, blended: GeneratedArticle, version: ArticleVersion) => {
+    try {
+      const stored = await ProjectStore.loadProject(projectId);
+      if (!stored) return;
+      await ProjectStore.saveProject({
+        ...stored,
+        article: blended,
+        versions: [...stored.versions, version],
+        activeVersionId: version.id
+      });
+      await refreshProjects();
+    } catch (e) {
+      console.error('Failed to save blend to its project', e);
+    }
+  };
+
+  const handleRestoreVersion = (id: string) => {
+    const version = versions.find(v => v.id === id);
+    if (!version) return;
+    setArticle(version.article);
+    setActiveVersionId(version.id);
+  };
+
   const readySources = sources.filter(s => s.status === 'ready');
   const canBlend = readySources.length > 0;
 
   const handleBlend = async () => {
     if (!canBlend) return;
+    const blendProjectId = project?.id;
     
     setIsBlending(true);
     setError(null);
-    setArticle(null);
     setBlendProgress('Gathering sources...');
 
     try {
       // 1. Aggregate Texts
+      // Channel and publish date let the writer attribute who said what
       const aggregatedText = readySources.map((s, index) => `
         --- SOURCE ${index + 1} (${s.type}): ${s.title} ---
-        ${s.extractedText}
+        ${[GeminiService.describeSource(s), s.extractedText].filter(Boolean).join('\n\n')}
       `).join('\n\n');
 
       setBlendProgress('Synthesizing narrative...');
 
       // 2. Synthesize Narrative
-      const rawMarkdown = await GeminiService.synthesizeNarrative(aggregatedText);
+      const settings = GeminiService.DEFAULT_BLEND_SETTINGS;
+      const rawMarkdown = await GeminiService.synthesizeNarrative(aggregatedText, settings);
       
       // Extract title
       const titleMatch = rawMarkdown.match(/^#\s+(.+)$/m);
@@ -54,14 +256,26 @@ const App: React.FC = () => {
 
       setBlendProgress('Complete!');
 
-      setArticle({
+      const blended: GeneratedArticle = {
         title,
         content,
-        sourceCount: readySources.length
-      });
+        sourceCount: readySources.length,
+        generatedAt: new Date()
+      };
+
+      // 3. Keep every blend as a version instead of replacing the last draft
+      const version = ArticleHistory.createVersion(blended, readySources.map(s => s.id), settings);
+      if (projectIdRef.current !== blendProjectId) {
+        if (blendProjectId) await saveBlendToProject(blendProjectId, blended, version);
+        return;
+      }
+      setVersions(prev => [...prev, version]);
+      setActiveVersionId(version.id);
+      setArticle(blended);
 
     } catch (e) {
       console.error(e);
+      if (projectIdRef.current !== blendProjectId) return;
       setError("Failed to blend research. Please check your API key and try again.");
     } finally {
       setIsBlending(false);
@@ -73,17 +287,35 @@ const App: React.FC = () => {
     <div className="flex flex-col h-full">
       {/* Top Bar - Glass Effect */}
       <header className="h-16 glass-dark text-white flex items-center justify-between px-6 shrink-0 z-20">
-        <div className="flex items-center gap-3">
-          <div className="relative">
-            <div className="absolute inset-0 bg-gradient-to-br from-brand-500 to-accent-500 rounded-xl blur-lg opacity-50"></div>
-            <div className="relative bg-gradient-to-br from-brand-500 to-accent-500 p-2.5 rounded-xl">
-              <Sparkles size={20} className="text-white" />
+        <div className="flex items-center gap-6">
+          <div className="flex items-center gap-3">
+            <div className="relative">
+              <div className="absolute inset-0 bg-gradient-to-br from-brand-500 to-accent-500 rounded-xl blur-lg opacity-50"></div>
+              <div className="relative bg-gradient-to-br from-brand-500 to-accent-500 p-2.5 rounded-xl">
+                <Sparkles size={20} className="text-white" />
+              </div>
+            </div>
+            <div>
+              <h1 className="font-display font-bold text-xl tracking-tight">Research Blender</h1>
+              <p className="text-xs text-slate-400 -mt-0.5">AI-Powered Synthesis</p>
             </div>
           </div>
-          <div>
-            <h1 className="font-display font-bold text-xl tracking-tight">Research Blender</h1>
-            <p className="text-xs text-slate-400 -mt-0.5">AI-Powered Synthesis</p>
-          </div>
+
+          {/* Project Switcher */}
+          {project && (
+            <ProjectSwitcher
+              currentId={project.id}
+              currentName={project.name}
+              projects={projects}
+              isSaving={isSaving}
+              onSwitch={handleSwitchProject}
+              onCreate={handleCreateProject}
+              onRename={handleRenameProject}
+              onDelete={handleDeleteProject}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+            />
+          )}
         </div>
         
         <div className="flex items-center gap-4">
@@ -140,7 +372,8 @@ const App: React.FC = () => {
       {/* Main Workspace */}
       <main className="flex-1 flex overflow-hidden">
         {/* Left Panel: Input Hopper */}
-        <InputHopper sources={sources} setSources={setSources} />
+        {/* Remounted per project so its queue and recordings stop with the project they belong to */}
+        <InputHopper key={project?.id} sources={sources} setSources={sourcesSetterFor(project?.id)} />
 
         {/* Right Panel: Article View */}
         <div className="flex-1 flex flex-col relative">
@@ -168,6 +401,10 @@ const App: React.FC = () => {
             isBlending={isBlending} 
             blendProgress={blendProgress}
             sources={sources}
+            onArticleUpdate={articleUpdaterFor(project?.id)}
+            versions={versions}
+            activeVersionId={activeVersionId}
+            onRestoreVersion={handleRestoreVersion}
           />
         </div>
       </main>
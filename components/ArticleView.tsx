@@ -1,11 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { GeneratedArticle, ResearchSource, SourceType } from '../types';
+import { GeneratedArticle, ResearchSource, SourceType, ArticleVersion } from '../types';
 import * as GeminiService from '../services/geminiService';
 import { UserProfile } from '../services/geminiService';
+import VersionHistoryPanel from './VersionHistoryPanel';
 import { 
   Wand2, Download, Share2, Edit2, Loader2, Sparkles, ImagePlus, 
-  Copy, Check, BookOpen, Layers, Clock, FileText, Zap, User, Globe, X
+  Copy, Check, BookOpen, Layers, Clock, FileText, Zap, User, Globe, X, History
 } from 'lucide-react';
 
 interface ArticleViewProps {
@@ -13,9 +14,16 @@ interface ArticleViewProps {
   isBlending: boolean;
   blendProgress?: string;
   sources: ResearchSource[];
+  onArticleUpdate?: (updates: Partial<GeneratedArticle>) => void;
+  versions?: ArticleVersion[];
+  activeVersionId?: string;
+  onRestoreVersion?: (id: string) => void;
 }
 
-const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendProgress, sources }) => {
+const ArticleView: React.FC<ArticleViewProps> = ({
+  article, isBlending, blendProgress, sources, onArticleUpdate,
+  versions = [], activeVersionId, onRestoreVersion
+}) => {
   const [isEditingImage, setIsEditingImage] = useState(false);
   const [editPrompt, setEditPrompt] = useState('');
   const [isRegeneratingImage, setIsRegeneratingImage] = useState(false);
@@ -25,11 +33,18 @@ const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendPro
   const [showPromptEditor, setShowPromptEditor] = useState(false);
   const [imagePrompt, setImagePrompt] = useState('');
   const [isGeneratingPrompt, setIsGeneratingPrompt] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
     setCurrentImage(article?.imageUrl);
   }, [article]);
 
+  // Keep the cover image on the article so it is saved with the project
+  const updateCoverImage = (imageUrl: string, prompt?: string) => {
+    setCurrentImage(imageUrl);
+    onArticleUpdate?.({ imageUrl, ...(prompt ? { imagePrompt: prompt } : {}) });
+  };
+
   useEffect(() => {
     // Load user profile
     setUserProfile(GeminiService.getUserProfile());
@@ -81,7 +96,7 @@ const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendPro
       
       console.log(`Generating image with ${imageDataUrls.length} reference image(s)`);
       const newImage = await GeminiService.generateCoverImage(imagePrompt, imageDataUrls.length > 0 ? imageDataUrls : undefined);
-      setCurrentImage(newImage);
+      updateCoverImage(newImage, imagePrompt);
       setShowPromptEditor(false);
     } catch (e) {
       console.error("Failed to generate image", e);
@@ -97,7 +112,7 @@ const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendPro
     setIsRegeneratingImage(true);
     try {
       const newImage = await GeminiService.editImage(currentImage, editPrompt);
-      setCurrentImage(newImage);
+      updateCoverImage(newImage);
       setIsEditingImage(false);
       setEditPrompt('');
     } catch (e) {
@@ -331,6 +346,15 @@ const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendPro
               </div>
             </>
           )}
+          {versions.length > 0 && (
+            <button
+              onClick={() => setShowHistory(true)}
+              className="ml-auto flex items-center gap-1.5 px-3 py-1 rounded-full bg-slate-100 hover:bg-slate-200 text-slate-600 transition-colors"
+            >
+              <History size={14} />
+              <span>{versions.length} version{versions.length !== 1 ? 's' : ''}</span>
+            </button>
+          )}
         </div>
 
         {/* Article Body */}
@@ -410,6 +434,20 @@ const ArticleView: React.FC<ArticleViewProps> = ({ article, isBlending, blendPro
         </div>
       </div>
 
+      {/* Version History Panel */}
+      {showHistory && (
+        <VersionHistoryPanel
+          versions={versions}
+          activeVersionId={activeVersionId}
+          sources={sources}
+          onRestore={(id) => {
+            onRestoreVersion?.(id);
+            setShowHistory(false);
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Image Prompt Editor Modal */}
       {showPromptEditor && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4" style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0 }}>
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { CaptionOptions, CaptionTrackList } from '../types';
+import * as GeminiService from '../services/geminiService';
+import { Languages, Loader2 } from 'lucide-react';
+
+interface CaptionLanguagePickerProps {
+  url: string;
+  value?: CaptionOptions;
+  onChange: (captions?: CaptionOptions) => void;
+}
+
+// Select values look like "de|manual" so uploaded and auto-generated tracks
+// of the same language stay distinct
+const trackValue = (languageCode: string, isGenerated: boolean) => `${languageCode}|${isGenerated ? 'auto' : 'manual'}`;
+
+const CaptionLanguagePicker: React.FC<CaptionLanguagePickerProps> = ({ url, value, onChange }) => {
+  const [trackList, setTrackList] = useState<CaptionTrackList | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTracks = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const list = await GeminiService.listCaptionTracks(url);
+      if (list.tracks.length === 0) throw new Error('This video has no captions');
+      setTrackList(list);
+    } catch (e: any) {
+      console.error(e);
+      setError(e.message || 'Could not list captions');
+    }
+    setIsLoading(false);
+  };
+
+  if (!trackList) {
+    return (
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={loadTracks}
+          disabled={isLoading}
+          className="flex items-center gap-1 text-brand-600 hover:text-brand-700 disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 size={12} className="animate-spin" /> : <Languages size={12} />}
+          Choose caption language
+        </button>
+        {error && <span className="text-red-500">{error}</span>}
+      </div>
+    );
+  }
+
+  const selectedTrack = value?.language
+    ? trackList.tracks.find(t => t.languageCode === value.language && (value.isGenerated === undefined || t.isGenerated === value.isGenerated))
+    : undefined;
+  // Without an explicit pick the default track is translated, so any translatable track allows it
+  const canTranslate = selectedTrack ? selectedTrack.isTranslatable : trackList.tracks.some(t => t.isTranslatable);
+
+  const changeTrack = (selected: string) => {
+    const [language, kind] = selected.split('|');
+    const track = trackList.tracks.find(t => trackValue(t.languageCode, t.isGenerated) === selected);
+    const next: CaptionOptions = {
+      language: language || undefined,
+      isGenerated: language ? kind === 'auto' : undefined,
+      translateTo: !track || track.isTranslatable ? value?.translateTo : undefined
+    };
+    onChange(next.language || next.translateTo ? next : undefined);
+  };
+
+  const changeTranslation = (translateTo: string) => {
+    const next: CaptionOptions = { ...value, translateTo: translateTo || undefined };
+    onChange(next.language || next.translateTo ? next : undefined);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs">
+      <label className="space-y-1">
+        <span className="text-slate-500 flex items-center gap-1">
+          <Languages size={12} />
+          Captions
+        </span>
+        <select
+          value={value?.language ? trackValue(value.language, !!value.isGenerated) : ''}
+          onChange={(e) => changeTrack(e.target.value)}
+          className="w-full px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-slate-700"
+        >
+          <option value="">Default</option>
+          {trackList.tracks.map(track => (
+            <option key={trackValue(track.languageCode, track.isGenerated)} value={trackValue(track.languageCode, track.isGenerated)}>
+              {track.name}{track.isGenerated ? ' (auto-generated)' : ''}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-slate-500">Translate to</span>
+        <select
+          value={value?.translateTo || ''}
+          onChange={(e) => changeTranslation(e.target.value)}
+          disabled={!canTranslate}
+          className="w-full px-2 py-1.5 border border-slate-200 rounded-lg bg-white text-slate-700 disabled:opacity-50"
+        >
+          <option value="">No translation</option>
+          {trackList.translationLanguages.map(lang => (
+            <option key={lang.languageCode} value={lang.languageCode}>{lang.name}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CaptionLanguagePicker;
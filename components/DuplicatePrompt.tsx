@@ -0,0 +1,52 @@
+import React from 'react';
+import { ResearchSource } from '../types';
+import { DuplicateMatch } from '../services/duplicateDetection';
+import { Copy, GitMerge } from 'lucide-react';
+
+interface DuplicatePromptProps {
+  match: DuplicateMatch;
+  // The source just added
+  duplicate: ResearchSource;
+  existing: ResearchSource;
+  onMerge: () => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+}
+
+const DuplicatePrompt: React.FC<DuplicatePromptProps> = ({ match, duplicate, existing, onMerge, onKeep, onDiscard }) => (
+  <div className="mb-2 bg-amber-50 border border-amber-200 rounded-xl p-3">
+    <div className="flex items-start gap-2">
+      <Copy size={14} className="text-amber-600 mt-0.5 shrink-0" />
+      <p className="text-xs text-amber-800 leading-relaxed min-w-0">
+        <span className="font-semibold">{duplicate.title}</span>
+        {match.kind === 'exact'
+          ? ' is the same content as '
+          : ` overlaps ${Math.round(match.similarity * 100)}% with `}
+        <span className="font-semibold">{existing.title}</span>
+      </p>
+    </div>
+    <div className="flex gap-2 mt-2">
+      <button
+        onClick={onMerge}
+        className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs font-medium bg-amber-500 hover:bg-amber-600 text-white rounded-lg transition-colors"
+      >
+        <GitMerge size={12} />
+        Merge
+      </button>
+      <button
+        onClick={onKeep}
+        className="flex-1 py-1.5 text-xs font-medium bg-white hover:bg-amber-100 text-amber-700 border border-amber-200 rounded-lg transition-colors"
+      >
+        Keep both
+      </button>
+      <button
+        onClick={onDiscard}
+        className="flex-1 py-1.5 text-xs font-medium bg-white hover:bg-red-50 text-red-600 border border-amber-200 rounded-lg transition-colors"
+      >
+        Discard
+      </button>
+    </div>
+  </div>
+);
+
+export default DuplicatePrompt;
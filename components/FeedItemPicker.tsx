@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Feed, FeedItem } from '../services/feeds';
+import { formatDuration } from '../services/audioFiles';
+import { Rss, X, Plus, Headphones } from 'lucide-react';
+
+interface FeedItemPickerProps {
+  feeds: Feed[];
+  onAdd: (items: { feed: Feed; item: FeedItem }[]) => void;
+  onClose: () => void;
+}
+
+// Items published within this many days start out selected
+const RECENT_DAYS = 7;
+
+const isRecent = (item: FeedItem) => {
+  const cutoff = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  // YYYY-MM-DD dates compare correctly as strings
+  return !!item.publishedAt && item.publishedAt >= cutoff;
+};
+
+const FeedItemPicker: React.FC<FeedItemPickerProps> = ({ feeds, onAdd, onClose }) => {
+  const allItems = feeds.flatMap(feed => feed.items.map(item => ({ feed, item })));
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(allItems.filter(({ item }) => isRecent(item)).map(({ item }) => item.url))
+  );
+
+  const toggle = (urls: string[], on: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      urls.forEach(url => (on ? next.add(url) : next.delete(url)));
+      return next;
+    });
+  };
+
+  const allSelected = allItems.every(({ item }) => selected.has(item.url));
+  const noun = feeds.every(feed => feed.isPodcast) ? 'episode' : 'item';
+
+  // Portalled so the hopper's backdrop-filter doesn't clip the fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-orange-500 to-amber-500 p-5 text-white shrink-0">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center shrink-0">
+                <Rss size={20} />
+              </div>
+              <div className="min-w-0">
+                <h2 className="font-display font-bold text-lg truncate">
+                  {feeds.length === 1 ? feeds[0].title : `${feeds.length} feeds`}
+                </h2>
+                <p className="text-white/80 text-sm">
+                  {allItems.length} {noun}s • last {RECENT_DAYS} days preselected
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors shrink-0">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Select All */}
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between text-xs shrink-0">
+          <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => toggle(allItems.map(({ item }) => item.url), !allSelected)}
+              className="rounded border-slate-300 text-brand-500"
+            />
+            Select all
+          </label>
+          <span className="text-slate-400">{selected.size} selected</span>
+        </div>
+
+        {/* Item List, grouped by feed */}
+        <div className="flex-1 overflow-y-auto">
+          {feeds.map(feed => {
+            const feedUrls = feed.items.map(item => item.url);
+            const feedSelected = feedUrls.every(url => selected.has(url));
+            return (
+              <div key={feed.url}>
+                {feeds.length > 1 && (
+                  <label className="sticky top-0 flex items-center gap-2 px-5 py-2 bg-slate-50 border-b border-slate-100 text-xs font-semibold text-slate-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={feedSelected}
+                      onChange={() => toggle(feedUrls, !feedSelected)}
+                      className="rounded border-slate-300 text-brand-500"
+                    />
+                    <span className="truncate">{feed.title}</span>
+                    {feed.truncated && <span className="font-normal text-slate-400 shrink-0">(latest only)</span>}
+                  </label>
+                )}
+                {feed.items.map(item => (
+                  <label
+                    key={item.url}
+                    className="flex items-start gap-3 px-5 py-2.5 border-b border-slate-50 hover:bg-slate-50 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.url)}
+                      onChange={() => toggle([item.url], !selected.has(item.url))}
+                      className="rounded border-slate-300 text-brand-500 shrink-0 mt-0.5"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-slate-700 truncate flex items-center gap-1.5" title={item.title}>
+                        {item.audio && <Headphones size={12} className="text-orange-500 shrink-0" />}
+                        <span className="truncate">{item.title}</span>
+                      </p>
+                      {item.summary && <p className="text-xs text-slate-400 line-clamp-2">{item.summary}</p>}
+                    </div>
+                    <span className="text-xs text-slate-400 shrink-0 text-right">
+                      {item.publishedAt || ''}
+                      {!!item.duration && <span className="block">{formatDuration(item.duration)}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 flex gap-2 shrink-0">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onAdd(allItems.filter(({ item }) => selected.has(item.url)))}
+            disabled={selected.size === 0}
+            className="flex-1 btn-primary text-white py-2.5 rounded-xl text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Plus size={16} />
+            Add {selected.size} {noun}{selected.size !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default FeedItemPicker;
@@ -1,12 +1,65 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { ResearchSource, SourceType } from '../types';
+import { CaptionOptions, ImageAnalysisMode, ResearchSource, SourceType, TranscriptSegment } from '../types';
 import * as GeminiService from '../services/geminiService';
+import * as ExtractionCache from '../services/extractionCache';
+import * as DuplicateDetection from '../services/duplicateDetection';
+import * as DocumentParser from '../services/documentParser';
+import * as OfficeParser from '../services/officeParser';
+import * as TextFiles from '../services/textFiles';
+import * as AudioFiles from '../services/audioFiles';
+import * as ProcessingQueue from '../services/processingQueue';
+import { collectDroppedFiles } from '../services/droppedFiles';
+import { parseUrlList } from '../services/urlList';
+import * as YoutubeCollections from '../services/youtubeCollections';
+import { YoutubeCollection } from '../services/youtubeCollections';
+import * as Feeds from '../services/feeds';
+import * as Podcasts from '../services/podcasts';
+import * as Clipboard from '../services/clipboard';
+import { ProgressOptions } from '../services/geminiFiles';
+import { Feed, FeedItem } from '../services/feeds';
+import YoutubeCollectionPicker from './YoutubeCollectionPicker';
+import FeedItemPicker from './FeedItemPicker';
+import CaptionLanguagePicker from './CaptionLanguagePicker';
+import RecordingPanel from './RecordingPanel';
+import ReprocessMenu, { ReprocessChoice } from './ReprocessMenu';
+import DuplicatePrompt from './DuplicatePrompt';
+import { useVoiceRecording } from '../hooks/useVoiceRecording';
+import { useScreenCapture } from '../hooks/useScreenCapture';
+import { useDuplicateResolution } from '../hooks/useDuplicateResolution';
 import { 
-  Plus, Mic, StopCircle, Upload, Link as LinkIcon, FileText, 
+  Plus, Mic, Upload, Link as LinkIcon, FileText, 
   Youtube, Globe, Image, Video, Trash2, CheckCircle2, Loader2, 
-  AlertCircle, ChevronDown, ChevronUp, Sparkles, Puzzle, Settings
+  AlertCircle, ChevronDown, ChevronUp, Sparkles, Puzzle, Settings, RefreshCw,
+  BookOpen, ScrollText, Presentation, X, RotateCcw, Edit2, Undo2, Wand2
 } from 'lucide-react';
 
+// Titles for links until the real one has been fetched
+const PLACEHOLDER_VIDEO_TITLE = 'YouTube Video';
+const PLACEHOLDER_ARTICLE_TITLE = 'Web Article';
+
+interface ExtractionResult {
+  text: string;
+  thumbnail?: string;
+  title?: string;
+  segments?: TranscriptSegment[];
+  metadata?: ResearchSource['metadata'];
+}
+
+interface ProcessOptions {
+  // Ignore the extraction cache
+  force?: boolean;
+  // Don't ask about duplicates (the user already chose to keep this source)
+  skipDuplicateCheck?: boolean;
+  // Set by the processing queue; results are dropped once it fires
+  signal?: AbortSignal;
+}
+
+interface UrlBatch {
+  sourceIds: string[];
+  // Pasted pieces that never became sources (not links, unlistable playlists)
+  skipped: { text: string; reason: string }[];
+}
+
 interface InputHopperProps {
   sources: ResearchSource[];
   setSources: React.Dispatch<React.SetStateAction<ResearchSource[]>>;
@@ -16,19 +69,59 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
   const [activeTab, setActiveTab] = useState<SourceType>(SourceType.URL);
   const [textInput, setTextInput] = useState('');
   const [urlInput, setUrlInput] = useState('');
-  const [isRecording, setIsRecording] = useState(false);
   const [expandedSource, setExpandedSource] = useState<string | null>(null);
   const [extensionId, setExtensionId] = useState(localStorage.getItem('research_blender_extension_id') || '');
   const [extensionStatus, setExtensionStatus] = useState<'unknown' | 'connected' | 'not-found'>('unknown');
   const [showExtensionSetup, setShowExtensionSetup] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const [concurrency, setConcurrency] = useState(ProcessingQueue.getSavedConcurrency);
+  // Sources queued since the queue was last empty, for the batch progress bar
+  const [batchTotal, setBatchTotal] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
+  const [urlBatch, setUrlBatch] = useState<UrlBatch | null>(null);
+  // Expanded playlists/channels waiting for the user to pick videos
+  const [collectionPickers, setCollectionPickers] = useState<{ url: string; collection: YoutubeCollection }[]>([]);
+  const [isExpandingCollection, setIsExpandingCollection] = useState(false);
+  // Feeds pasted together share one picker
+  const [feedPicker, setFeedPicker] = useState<Feed[] | null>(null);
+  const [isReadingFeeds, setIsReadingFeeds] = useState(false);
+  // Caption track picked for the pasted video; ignored once the input changes to another video
+  const [captionChoice, setCaptionChoice] = useState<{ videoId: string; captions?: CaptionOptions } | null>(null);
+  // Extracted text being corrected in an expanded card
+  const [textEdit, setTextEdit] = useState<{ sourceId: string; text: string } | null>(null);
+  // Source whose "Re-process with..." dialog is open
+  const [reprocessingId, setReprocessingId] = useState<string | null>(null);
+  // Analysis mode for images added from now on
+  const [imageMode, setImageMode] = useState<ImageAnalysisMode>('general');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textFileInputRef = useRef<HTMLInputElement>(null);
+  const queueRef = useRef<ProcessingQueue.ProcessingQueue | null>(null);
+  if (!queueRef.current) queueRef.current = ProcessingQueue.createProcessingQueue(concurrency);
+  const dragDepthRef = useRef(0);
+  // Ready sources being extracted again; they go back to their old text if that fails or is cancelled
+  const keepPreviousRef = useRef(new Set<string>());
+  const hopperRef = useRef<HTMLDivElement>(null);
+  const isPointerOverRef = useRef(false);
+  // Latest sources, for checks that run after an await
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
 
   // Check extension status on mount and when ID changes
   useEffect(() => {
     checkExtensionStatus();
   }, [extensionId]);
 
+  useEffect(() => () => {
+    queueRef.current?.cancelAll();
+  }, []);
+
+  const activeCount = sources.filter(s => s.status === 'queued' || s.status === 'processing').length;
+
+  // Start a new batch once everything queued so far has finished
+  useEffect(() => {
+    if (activeCount === 0) setBatchTotal(0);
+  }, [activeCount]);
+
   const checkExtensionStatus = async () => {
     if (!extensionId) {
       setExtensionStatus('unknown');
@@ -60,7 +153,8 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
 
   const addSource = (partialSource: Partial<ResearchSource>) => {
     const newSource: ResearchSource = {
-      id: Date.now().toString(),
+      // Several sources can be added in the same millisecond
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       extractedText: '',
       status: 'pending',
       title: 'New Source',
@@ -72,152 +166,554 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
     return newSource;
   };
 
-  const updateSource = (id: string, updates: Partial<ResearchSource>) => {
-    setSources(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+  // Pass a function for updates that build on the source's latest state
+  const updateSource = (id: string, updates: Partial<ResearchSource> | ((source: ResearchSource) => Partial<ResearchSource>)) => {
+    setSources(prev => prev.map(s => s.id === id ? { ...s, ...(typeof updates === 'function' ? updates(s) : updates) } : s));
   };
 
   const isYoutubeUrl = (url: string) => /(?:youtube\.com|youtu\.be)/.test(url);
 
-  const handleTextSubmit = () => {
-    if (!textInput.trim()) return;
-    const wordCount = textInput.trim().split(/\s+/).length;
-    addSource({
-      type: SourceType.TEXT,
-      title: `Notes (${wordCount} words)`,
-      originalContent: textInput,
-      extractedText: textInput,
-      status: 'ready',
-      metadata: { wordCount }
-    });
-    setTextInput('');
+  const failureMessages: Partial<Record<SourceType, string>> = {
+    [SourceType.URL]: 'Failed to process URL',
+    [SourceType.IMAGE]: 'Failed to analyze file',
+    [SourceType.VIDEO]: 'Failed to analyze file',
+    [SourceType.AUDIO]: 'Failed to transcribe audio',
+    [SourceType.DOCUMENT]: 'Failed to read document',
+    [SourceType.PRESENTATION]: 'Failed to read slides',
+    [SourceType.EBOOK]: 'Failed to read e-book',
   };
 
-  const handleUrlSubmit = async () => {
-    if (!urlInput.trim()) return;
-    const url = urlInput.trim();
-    const isYT = isYoutubeUrl(url);
-    
-    const source = addSource({
-      type: SourceType.URL,
-      title: isYT ? 'YouTube Video' : 'Web Article',
-      originalContent: url,
-      status: 'processing',
-      metadata: { url }
-    });
-    setUrlInput('');
+  // Runs the model for a source and returns its extracted text
+  const extractSource = async (source: ResearchSource, options: ProgressOptions = {}): Promise<ExtractionResult> => {
+    const content = source.originalContent;
+    const extraction: GeminiService.ExtractionOptions = {
+      model: source.metadata?.extractionModel,
+      instructions: source.metadata?.extractionInstructions
+    };
+    switch (source.type) {
+      case SourceType.URL:
+        return GeminiService.processUrl(content as string, source.metadata?.captionOptions);
+      case SourceType.IMAGE:
+        return { text: await GeminiService.analyzeImage(content as File, source.metadata?.imageMode, extraction) };
+      case SourceType.VIDEO:
+        return { text: await GeminiService.analyzeVideo(content as File, { ...options, ...extraction }) };
+      case SourceType.AUDIO:
+        // Podcast episodes are stored by their enclosure URL and downloaded when processed
+        return typeof content === 'string'
+          ? { text: await Podcasts.transcribeEpisode(content, { ...options, ...extraction }) }
+          : { text: await GeminiService.transcribeAudio(content as Blob, { ...options, ...extraction }) };
+      case SourceType.DOCUMENT:
+      case SourceType.PRESENTATION:
+      case SourceType.EBOOK: {
+        const file = content as File;
+        const officeFormat = OfficeParser.detectOfficeFormat(file);
+        if (officeFormat) return OfficeParser.parseOfficeFile(file, officeFormat);
+        const { text, pageCount, pageOffsets, extractionMethod } = await DocumentParser.parsePdf(file, { ...options, ...extraction });
+        return { text, metadata: { pageCount, pageOffsets, extractionMethod } };
+      }
+      default:
+        return { text: typeof content === 'string' ? content : await TextFiles.readTextFile(content) };
+    }
+  };
+
+  // Fills in a source's extracted text, reusing a cached extraction of the
+  // same content unless `force` is set. Duplicates of existing sources are
+  // held back (exact) or flagged (near) for the user to resolve.
+  const processSource = async (source: ResearchSource, options: ProcessOptions = {}) => {
+    updateSource(source.id, { status: 'processing', errorMessage: undefined });
 
     try {
-      const result = await GeminiService.processUrl(url);
+      const contentKey = await ExtractionCache.contentKeyFor(source);
+      if (options.signal?.aborted) return;
+      const metadata = { ...source.metadata, contentKey: contentKey || undefined };
+
+      if (contentKey && !options.skipDuplicateCheck) {
+        const match = DuplicateDetection.findExactDuplicate(source, contentKey, sourcesRef.current);
+        if (match) {
+          updateSource(source.id, { status: 'pending', metadata });
+          duplicates.prompt(match);
+          return;
+        }
+      }
+
+      const cacheKey = await ExtractionCache.cacheKeyFor(source, contentKey);
+      const stored = cacheKey && !options.force ? await ExtractionCache.getCachedExtraction(cacheKey) : null;
+      // Search summaries cached before they were skipped don't count as a hit
+      const cached = stored?.metadata?.extractionMethod === 'search-grounding' ? null : stored;
+      const result: ExtractionResult = cached
+        ? { text: cached.extractedText, thumbnail: cached.thumbnail, title: cached.title, segments: cached.segments, metadata: cached.metadata }
+        : await extractSource(source, {
+          signal: options.signal,
+          onProgress: progress => {
+            if (!options.signal?.aborted) updateSource(source.id, { progress });
+          }
+        });
+
+      // Cancelled extractions are still cached, since the work is already paid for.
+      // A search summary stands in for a page that couldn't be fetched, so the
+      // next add tries the page again instead of getting the summary back.
+      if (cacheKey && !cached && result.metadata?.extractionMethod !== 'search-grounding') {
+        await ExtractionCache.putCachedExtraction({
+          key: cacheKey,
+          model: ExtractionCache.extractionModelFor(source),
+          extractedText: result.text,
+          thumbnail: result.thumbnail,
+          title: result.title,
+          segments: result.segments,
+          metadata: result.metadata
+        });
+      }
+      if (options.signal?.aborted) return;
+
       const wordCount = result.text.split(/\s+/).length;
-      updateSource(source.id, { 
+      const processed: Partial<ResearchSource> = {
         extractedText: result.text, 
+        // A fresh extraction replaces any corrections
+        originalText: undefined,
         status: 'ready',
-        thumbnail: result.thumbnail,
-        title: isYT ? 'YouTube Video' : 'Web Article',
-        metadata: { url, wordCount }
-      });
+        progress: undefined,
+        thumbnail: result.thumbnail || source.thumbnail,
+        // Titles the user gave (Markdown link text) or that came from a playlist are kept
+        ...(result.title && [PLACEHOLDER_VIDEO_TITLE, PLACEHOLDER_ARTICLE_TITLE].includes(source.title) ? { title: result.title } : {}),
+        segments: result.segments,
+        metadata: { ...metadata, ...result.metadata, wordCount, cacheKey: cacheKey || undefined, fromCache: !!cached, humanEdited: undefined }
+      };
+      updateSource(source.id, processed);
+      keepPreviousRef.current.delete(source.id);
+
+      if (!options.skipDuplicateCheck) {
+        duplicates.checkNearDuplicate({ ...source, ...processed });
+      }
     } catch (e: any) {
       console.error(e);
+      if (options.signal?.aborted) return;
+      const errorMessage = e.message || failureMessages[source.type] || 'Failed to process source';
+      if (keepPreviousRef.current.delete(source.id)) {
+        updateSource(source.id, { status: 'ready', progress: undefined, errorMessage: `Re-processing failed: ${errorMessage}` });
+        return;
+      }
       updateSource(source.id, { 
         status: 'error',
-        errorMessage: e.message || 'Failed to process URL'
+        progress: undefined,
+        errorMessage
       });
     }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Runs processSource through the queue, at most `concurrency` at a time
+  const queueSource = (source: ResearchSource, options: ProcessOptions = {}) => {
+    if (source.status === 'ready') keepPreviousRef.current.add(source.id);
+    else keepPreviousRef.current.delete(source.id);
+    updateSource(source.id, { status: 'queued', errorMessage: undefined });
+    setBatchTotal(n => n + 1);
+    queueRef.current!.enqueue(source.id, signal => processSource(source, { ...options, signal }));
+  };
+
+  // Called here rather than at the top since they take the source helpers above
+  const duplicates = useDuplicateResolution({
+    setSources,
+    sourcesRef,
+    onKeep: source => queueSource(source, { skipDuplicateCheck: true }),
+    onDiscard: id => removeSource(id)
+  });
+  const voice = useVoiceRecording({ addSource, updateSource, sourcesRef, onRecorded: duplicates.checkNearDuplicate });
+  const screenCapture = useScreenCapture({ addSource, queueSource });
+
+  const cancelSource = (id: string) => {
+    if (queueRef.current!.cancel(id) || voice.discard(id)) {
+      updateSource(id, keepPreviousRef.current.delete(id)
+        ? { status: 'ready', progress: undefined }
+        : { status: 'error', errorMessage: 'Cancelled', progress: undefined });
+    }
+  };
+
+  const cancelAll = () => {
+    queueRef.current!.cancelAll();
+    voice.discardAll();
+    setSources(prev => prev.map(s => {
+      if (s.status !== 'queued' && s.status !== 'processing') return s;
+      return keepPreviousRef.current.has(s.id)
+        ? { ...s, status: 'ready', progress: undefined }
+        : { ...s, status: 'error', errorMessage: 'Cancelled', progress: undefined };
+    }));
+    keepPreviousRef.current.clear();
+  };
 
-    let type = SourceType.TEXT;
-    if (file.type.startsWith('image/')) type = SourceType.IMAGE;
-    else if (file.type.startsWith('video/')) type = SourceType.VIDEO;
-    else return;
+  const changeConcurrency = (limit: number) => {
+    setConcurrency(limit);
+    ProcessingQueue.saveConcurrency(limit);
+    queueRef.current!.setConcurrency(limit);
+  };
 
+  const addTextNote = (text: string, title?: string) => {
+    const wordCount = text.trim().split(/\s+/).length;
     const source = addSource({
-      type,
-      title: file.name,
-      originalContent: file,
-      status: 'processing',
-      metadata: { fileName: file.name }
+      type: SourceType.TEXT,
+      title: title || `Notes (${wordCount} words)`,
+      originalContent: text,
+      extractedText: text,
+      status: 'ready',
+      metadata: { wordCount }
     });
+    duplicates.checkNearDuplicate(source);
+  };
 
+  const handleTextSubmit = () => {
+    if (!textInput.trim()) return;
+    addTextNote(textInput);
+    setTextInput('');
+  };
+
+  // Text, Markdown and HTML files are read locally; no model call needed
+  const addTextFile = async (file: File) => {
     try {
-      let extractedText = '';
-      if (type === SourceType.IMAGE) {
-        extractedText = await GeminiService.analyzeImage(file);
-      } else if (type === SourceType.VIDEO) {
-        extractedText = await GeminiService.analyzeVideo(file);
-      }
-      const wordCount = extractedText.split(/\s+/).length;
-      updateSource(source.id, { 
-        extractedText, 
+      const text = await TextFiles.readTextFile(file);
+      if (!text) return;
+      const source = addSource({
+        type: SourceType.TEXT,
+        title: file.name,
+        originalContent: file,
+        extractedText: text,
         status: 'ready',
-        metadata: { fileName: file.name, wordCount }
+        metadata: { fileName: file.name, wordCount: text.split(/\s+/).length }
       });
-    } catch (e: any) {
-      console.error(e);
-      updateSource(source.id, { 
+      duplicates.checkNearDuplicate(source);
+    } catch (err: any) {
+      console.error(err);
+      addSource({
+        type: SourceType.TEXT,
+        title: file.name,
+        originalContent: file,
         status: 'error',
-        errorMessage: e.message || 'Failed to analyze file'
+        errorMessage: err.message || 'Failed to read file',
+        metadata: { fileName: file.name }
       });
     }
-    
-    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
-      const chunks: BlobPart[] = [];
-
-      recorder.ondataavailable = (e) => chunks.push(e.data);
-      recorder.onstop = async () => {
-        const blob = new Blob(chunks, { type: 'audio/webm' });
-        const source = addSource({
-          type: SourceType.AUDIO,
-          title: `Voice Recording`,
-          originalContent: blob,
-          status: 'processing'
-        });
+  const handleTextFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter(TextFiles.isTextFile);
+    if (textFileInputRef.current) textFileInputRef.current.value = '';
+
+    for (const file of files) {
+      await addTextFile(file);
+    }
+  };
+
+  const handleUrlSubmit = async () => {
+    if (!urlInput.trim()) return;
+    const { urls } = parseUrlList(urlInput);
+    const captions = urls.length === 1 && captionChoice?.videoId === GeminiService.extractVideoId(urls[0].url)
+      ? captionChoice.captions
+      : undefined;
+    if (urls.length > 0) {
+      setUrlInput('');
+      setCaptionChoice(null);
+    }
+    await addUrlList(urlInput, captions);
+  };
+
+  // Accepts a single URL or a pasted list; each link becomes its own source
+  const addUrlList = async (text: string, captions?: CaptionOptions) => {
+    const { urls, invalid } = parseUrlList(text);
+    const collectionUrls = urls.filter(({ url }) => YoutubeCollections.isYoutubeCollectionUrl(url));
+    const feedUrls = urls.filter(({ url }) => !isYoutubeUrl(url) && Feeds.isFeedUrl(url));
+    const videoUrls = urls.filter(({ url }) => !YoutubeCollections.isYoutubeCollectionUrl(url) && !feedUrls.some(f => f.url === url));
+
+    const added = videoUrls.map(({ url, title }) => addSource({
+      type: SourceType.URL,
+      title: title || (isYoutubeUrl(url) ? PLACEHOLDER_VIDEO_TITLE : PLACEHOLDER_ARTICLE_TITLE),
+      originalContent: url,
+      status: 'queued',
+      metadata: { url, captionOptions: captions }
+    }));
+    added.forEach(source => queueSource(source));
+
+    // A single link reports on its own card; lists get a summary
+    const skipped = invalid.map(text => ({ text, reason: 'not a web link' }));
+    setUrlBatch(added.length > 1 || skipped.length > 0
+      ? { sourceIds: added.map(s => s.id), skipped }
+      : null);
+
+    if (feedUrls.length > 0) {
+      await expandFeeds(feedUrls.map(({ url }) => url));
+    }
+    if (collectionUrls.length > 0) {
+      await expandCollections(collectionUrls.map(({ url }) => url));
+    }
+  };
+
+  const skipUrl = (text: string, reason: string) => {
+    setUrlBatch(prev => ({
+      sourceIds: prev?.sourceIds || [],
+      skipped: [...(prev?.skipped || []), { text, reason }]
+    }));
+  };
+
+  // Feeds are read up front so the user can pick which posts to add
+  const expandFeeds = async (urls: string[]) => {
+    setIsReadingFeeds(true);
+    const results = await Promise.allSettled(urls.map(url => Feeds.fetchFeed(url)));
+    const seen = new Set<string>();
+    const feeds: Feed[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(result.reason);
+        skipUrl(urls[i], result.reason?.message || 'Could not read the feed');
+        return;
+      }
+      // The same post can appear in several feeds (e.g. a category feed and the main one)
+      const items = result.value.items.filter(item => {
+        const key = ExtractionCache.canonicalizeUrl(item.url);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+      if (items.length > 0) feeds.push({ ...result.value, items });
+      else if (result.value.items.length === 0) skipUrl(urls[i], 'No items found');
+    });
+    if (feeds.length > 0) setFeedPicker(feeds);
+    setIsReadingFeeds(false);
+  };
 
-        try {
-          const extractedText = await GeminiService.transcribeAudio(blob);
-          const wordCount = extractedText.split(/\s+/).length;
-          updateSource(source.id, { 
-            extractedText, 
-            status: 'ready',
-            metadata: { wordCount }
-          });
-        } catch (e: any) {
-          console.error(e);
-          updateSource(source.id, { 
-            status: 'error',
-            errorMessage: e.message || 'Failed to transcribe audio'
-          });
+  // Podcast episodes become audio sources; other posts are read as web articles
+  const addFeedItems = (items: { feed: Feed; item: FeedItem }[]) => {
+    const added = items.map(({ feed, item }) => item.audio
+      ? addSource({
+        type: SourceType.AUDIO,
+        title: item.title,
+        originalContent: item.audio.url,
+        status: 'queued',
+        metadata: {
+          url: item.url,
+          audioUrl: item.audio.url,
+          podcast: feed.title,
+          episodeTitle: item.title,
+          showNotes: item.showNotes,
+          author: item.author,
+          publishedAt: item.publishedAt,
+          duration: item.duration
         }
-      };
+      })
+      : addSource({
+        type: SourceType.URL,
+        title: item.title,
+        originalContent: item.url,
+        status: 'queued',
+        metadata: { url: item.url, author: item.author, publishedAt: item.publishedAt, siteName: feed.title }
+      }));
+    added.forEach(source => queueSource(source));
+    if (added.length > 1) setUrlBatch({ sourceIds: added.map(s => s.id), skipped: [] });
+    setFeedPicker(null);
+  };
 
-      recorder.start();
-      mediaRecorderRef.current = recorder;
-      setIsRecording(true);
-    } catch (err) {
-      console.error("Mic access denied or error", err);
-      alert("Microphone access is required.");
+  // Playlists and channels are listed first so the user can pick which videos to add
+  const expandCollections = async (urls: string[]) => {
+    setIsExpandingCollection(true);
+    for (const url of urls) {
+      try {
+        const collection = await YoutubeCollections.fetchYoutubeCollection(url);
+        if (collection.videos.length === 0) throw new Error('No videos found');
+        setCollectionPickers(prev => [...prev, { url, collection }]);
+      } catch (e: any) {
+        console.error(e);
+        skipUrl(url, e.message || 'Could not list videos');
+      }
     }
+    setIsExpandingCollection(false);
+  };
+
+  const addCollectionVideos = (collection: YoutubeCollection, videoIds: string[]) => {
+    const added = collection.videos
+      .filter(video => videoIds.includes(video.videoId))
+      .map(video => addSource({
+        type: SourceType.URL,
+        title: video.title,
+        originalContent: video.url,
+        status: 'queued',
+        metadata: { url: video.url, duration: video.duration || undefined }
+      }));
+    added.forEach(source => queueSource(source));
+    if (added.length > 1) setUrlBatch({ sourceIds: added.map(s => s.id), skipped: [] });
+    closeCollectionPicker();
+  };
+
+  const closeCollectionPicker = () => setCollectionPickers(prev => prev.slice(1));
+
+  const retryFailedUrls = () => {
+    if (!urlBatch) return;
+    sources
+      .filter(s => urlBatch.sourceIds.includes(s.id) && s.status === 'error')
+      .forEach(source => queueSource(source));
+  };
+
+  const fileSourceType = (file: File): SourceType | null => {
+    if (file.type.startsWith('image/')) return SourceType.IMAGE;
+    if (file.type.startsWith('video/')) return SourceType.VIDEO;
+    if (AudioFiles.isAudioFile(file)) return SourceType.AUDIO;
+    if (DocumentParser.isPdfFile(file)) return SourceType.DOCUMENT;
+    const officeTypes: Record<OfficeParser.OfficeFormat, SourceType> = {
+      docx: SourceType.DOCUMENT,
+      pptx: SourceType.PRESENTATION,
+      epub: SourceType.EBOOK,
+    };
+    const officeFormat = OfficeParser.detectOfficeFormat(file);
+    return officeFormat ? officeTypes[officeFormat] : null;
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
+  // Adds every supported file as a source and queues the ones that need extraction
+  const addFiles = async (files: File[]) => {
+    const skipped: string[] = [];
+    for (let file of files) {
+      if (TextFiles.isTextFile(file)) {
+        await addTextFile(file);
+        continue;
+      }
+      const type = fileSourceType(file);
+      if (!type) {
+        skipped.push(file.name);
+        continue;
+      }
+
+      let duration: number | undefined;
+      if (type === SourceType.AUDIO) {
+        // Same transcription path as voice recordings
+        file = AudioFiles.normalizeAudioFile(file);
+        duration = await AudioFiles.getAudioDuration(file);
+      }
+
+      const source = addSource({
+        type,
+        title: file.name,
+        originalContent: file,
+        status: 'queued',
+        metadata: { fileName: file.name, duration, imageMode: type === SourceType.IMAGE ? imageMode : undefined }
+      });
+      queueSource(source);
     }
+    setSkippedFiles(skipped);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    await addFiles(files);
+  };
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    await addFiles(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const isEditable = (target: EventTarget | null) =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+  // Pastes inside the hopper, or anywhere while the pointer is over it, become
+  // sources. Text pasted into a field stays there; only files are taken over.
+  const handlePaste = (e: ClipboardEvent) => {
+    const inHopper = !!hopperRef.current?.contains(e.target as Node);
+    if (!e.clipboardData || (!inHopper && (!isPointerOverRef.current || isEditable(e.target)))) return;
+
+    const pasted = Clipboard.readClipboardData(e.clipboardData);
+    if (!pasted || (isEditable(e.target) && pasted.kind !== 'files')) return;
+    e.preventDefault();
+
+    if (pasted.kind === 'files') addFiles(pasted.files);
+    else if (pasted.kind === 'urls') addUrlList(pasted.text);
+    else addTextNote(pasted.text, pasted.title);
+  };
+
+  // The listener is on the document so pastes work without focusing the hopper first
+  const pasteHandlerRef = useRef(handlePaste);
+  pasteHandlerRef.current = handlePaste;
+  useEffect(() => {
+    const listener = (e: ClipboardEvent) => pasteHandlerRef.current(e);
+    document.addEventListener('paste', listener);
+    return () => document.removeEventListener('paste', listener);
+  }, []);
+
+  // Re-extracting throws away hand corrections, so ask first
+  const confirmDiscardEdits = (source: ResearchSource) =>
+    !source.metadata?.humanEdited || confirm(`"${source.title}" has hand-edited text. Re-extracting replaces your corrections.`);
+
+  // Only sources whose extraction goes through a Gemini model; links keep plain Retry
+  const canReprocess = (source: ResearchSource) =>
+    (source.status === 'ready' || source.status === 'error') && ExtractionCache.takesExtractionOptions(source) &&
+    !(source.originalContent instanceof Blob && source.originalContent.size === 0);
+
+  // The new settings only reach the stored source once the extraction succeeds
+  const reprocessSource = (source: ResearchSource, choice: ReprocessChoice) => {
+    setReprocessingId(null);
+    if (!confirmDiscardEdits(source)) return;
+    queueSource({
+      ...source,
+      metadata: {
+        ...source.metadata,
+        extractionModel: choice.model,
+        extractionInstructions: choice.instructions,
+        ...(choice.imageMode ? { imageMode: choice.imageMode } : {})
+      }
+    }, { skipDuplicateCheck: true });
+  };
+
+  const saveTextEdit = () => {
+    if (!textEdit) return;
+    const source = sourcesRef.current.find(s => s.id === textEdit.sourceId);
+    setTextEdit(null);
+    if (!source || textEdit.text === source.extractedText) return;
+
+    // The machine extraction is kept the first time the text is changed
+    const originalText = source.originalText ?? source.extractedText;
+    const edited = textEdit.text !== originalText;
+    updateSource(source.id, {
+      extractedText: textEdit.text,
+      originalText: edited ? originalText : undefined,
+      metadata: {
+        ...source.metadata,
+        humanEdited: edited || undefined,
+        wordCount: textEdit.text.split(/\s+/).length
+      }
+    });
+  };
+
+  const revertTextEdit = (source: ResearchSource) => {
+    if (source.originalText === undefined) return;
+    updateSource(source.id, {
+      extractedText: source.originalText,
+      originalText: undefined,
+      metadata: { ...source.metadata, humanEdited: undefined, wordCount: source.originalText.split(/\s+/).length }
+    });
   };
 
   const removeSource = (id: string) => {
+    queueRef.current!.cancel(id);
+    voice.discard(id);
     setSources(prev => prev.filter(s => s.id !== id));
+    duplicates.forgetSource(id);
+  };
+
+  // Link to a moment in the source video
+  const timestampUrl = (source: ResearchSource, seconds: number) => {
+    const videoId = GeminiService.extractVideoId(source.metadata?.url || '');
+    return `https://www.youtube.com/watch?v=${videoId}&t=${Math.floor(seconds)}s`;
   };
 
   const getSourceIcon = (source: ResearchSource) => {
@@ -229,6 +725,9 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
       [SourceType.IMAGE]: Image,
       [SourceType.VIDEO]: Video,
       [SourceType.AUDIO]: Mic,
+      [SourceType.DOCUMENT]: ScrollText,
+      [SourceType.PRESENTATION]: Presentation,
+      [SourceType.EBOOK]: BookOpen,
     };
     return icons[source.type] || FileText;
   };
@@ -237,20 +736,89 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
     switch (status) {
       case 'ready': return 'bg-emerald-500';
       case 'processing': return 'bg-amber-500 animate-pulse';
+      case 'queued': return 'bg-slate-300';
       case 'error': return 'bg-red-500';
       default: return 'bg-slate-400';
     }
   };
 
+  // e.g. "de (auto) → en captions" for a translated auto-generated track
+  const captionLabel = (source: ResearchSource) => {
+    const { captionLanguage, captionGenerated, captionTranslatedFrom } = source.metadata || {};
+    const original = `${captionTranslatedFrom || captionLanguage}${captionGenerated ? ' (auto)' : ''}`;
+    return captionTranslatedFrom ? `${original} → ${captionLanguage} captions` : `${original} captions`;
+  };
+
+  const pastedUrls = parseUrlList(urlInput).urls;
+  const pastedUrlCount = pastedUrls.length;
+  const singleVideoUrl = pastedUrlCount === 1 && isYoutubeUrl(pastedUrls[0].url)
+    && !YoutubeCollections.isYoutubeCollectionUrl(pastedUrls[0].url) ? pastedUrls[0].url : null;
+  const singleVideoId = singleVideoUrl ? GeminiService.extractVideoId(singleVideoUrl) : null;
+  const urlBatchSources = urlBatch ? sources.filter(s => urlBatch.sourceIds.includes(s.id)) : [];
+  const urlBatchRemaining = urlBatchSources.filter(s => s.status === 'queued' || s.status === 'processing').length;
+  const urlBatchFailed = urlBatchSources.filter(s => s.status === 'error');
+  const queuedIds = sources.filter(s => s.status === 'queued').map(s => s.id);
+  const reprocessingSource = sources.find(s => s.id === reprocessingId);
+
   const tabs = [
     { id: SourceType.URL, icon: LinkIcon, label: 'Link', desc: 'YouTube or Web' },
     { id: SourceType.TEXT, icon: FileText, label: 'Text', desc: 'Notes & Ideas' },
-    { id: SourceType.VIDEO, icon: Upload, label: 'Media', desc: 'Images & Video' },
-    { id: SourceType.AUDIO, icon: Mic, label: 'Voice', desc: 'Record Audio' },
+    { id: SourceType.VIDEO, icon: Upload, label: 'Media', desc: 'Images, Video & Documents' },
+    { id: SourceType.AUDIO, icon: Mic, label: 'Voice', desc: 'Record Audio or Screen' },
   ];
 
   return (
-    <div className="flex flex-col h-full glass border-r border-white/20 w-full md:w-[420px] shrink-0">
+    <div
+      ref={hopperRef}
+      className="relative flex flex-col h-full glass border-r border-white/20 w-full md:w-[420px] shrink-0"
+      onMouseEnter={() => { isPointerOverRef.current = true; }}
+      onMouseLeave={() => { isPointerOverRef.current = false; }}
+      onDragEnter={handleDragEnter}
+      onDragOver={e => hasFiles(e) && e.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {/* Re-process Dialog */}
+      {reprocessingSource && (
+        <ReprocessMenu
+          key={reprocessingSource.id}
+          source={reprocessingSource}
+          defaultModel={ExtractionCache.extractionModelFor({
+            ...reprocessingSource,
+            metadata: { ...reprocessingSource.metadata, extractionModel: undefined }
+          })}
+          onReprocess={choice => reprocessSource(reprocessingSource, choice)}
+          onClose={() => setReprocessingId(null)}
+        />
+      )}
+
+      {/* Playlist / Channel Picker */}
+      {collectionPickers.length > 0 && (
+        <YoutubeCollectionPicker
+          key={collectionPickers[0].url}
+          collection={collectionPickers[0].collection}
+          onAdd={videoIds => addCollectionVideos(collectionPickers[0].collection, videoIds)}
+          onClose={closeCollectionPicker}
+        />
+      )}
+
+      {feedPicker && collectionPickers.length === 0 && (
+        <FeedItemPicker
+          feeds={feedPicker}
+          onAdd={addFeedItems}
+          onClose={() => setFeedPicker(null)}
+        />
+      )}
+
+      {/* Drop Overlay */}
+      {isDragging && (
+        <div className="absolute inset-3 z-20 rounded-2xl border-2 border-dashed border-brand-400 bg-brand-50/90 flex flex-col items-center justify-center pointer-events-none">
+          <Upload size={32} className="text-brand-500 mb-2" />
+          <p className="font-medium text-brand-700">Drop files or folders</p>
+          <p className="text-xs text-brand-500 mt-1">Each file becomes its own source</p>
+        </div>
+      )}
+
       {/* Header */}
       <div className="p-5 border-b border-slate-200/50">
         <div className="flex items-center gap-3">
@@ -306,21 +874,41 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                 <Plus size={16} />
                 Add to Hopper
               </button>
+              <input
+                ref={textFileInputRef}
+                type="file"
+                multiple
+                accept={TextFiles.TEXT_FILE_ACCEPT}
+                className="hidden"
+                onChange={handleTextFileUpload}
+              />
+              <button
+                onClick={() => textFileInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-2 py-2 text-xs text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+              >
+                <Upload size={14} />
+                Upload .txt, .md or .html files
+              </button>
             </div>
           )}
 
           {activeTab === SourceType.URL && (
             <div className="space-y-3">
               <div className="relative">
-                <input
-                  type="text"
-                  className="w-full p-4 pl-12 rounded-xl border border-slate-200 focus:border-brand-400 focus:ring-2 focus:ring-brand-100 text-sm transition-all bg-slate-50"
-                  placeholder="Paste YouTube or article URL..."
+                <textarea
+                  rows={urlInput.includes('\n') ? 5 : 1}
+                  className="w-full p-4 pl-12 rounded-xl border border-slate-200 focus:border-brand-400 focus:ring-2 focus:ring-brand-100 text-sm transition-all bg-slate-50 resize-none"
+                  placeholder="Paste YouTube, article or feed URLs (one per line)..."
                   value={urlInput}
                   onChange={(e) => setUrlInput(e.target.value)}
-                  onKeyDown={(e) => e.key === 'Enter' && handleUrlSubmit()}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleUrlSubmit();
+                    }
+                  }}
                 />
-                <div className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400">
+                <div className="absolute left-4 top-[18px] text-slate-400">
                   {urlInput && isYoutubeUrl(urlInput) ? (
                     <Youtube size={18} className="text-red-500" />
                   ) : (
@@ -328,14 +916,76 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                   )}
                 </div>
               </div>
+              {singleVideoUrl && singleVideoId && (
+                <CaptionLanguagePicker
+                  key={singleVideoId}
+                  url={singleVideoUrl}
+                  value={captionChoice?.videoId === singleVideoId ? captionChoice.captions : undefined}
+                  onChange={(captions) => setCaptionChoice({ videoId: singleVideoId, captions })}
+                />
+              )}
               <button 
                 onClick={handleUrlSubmit}
-                disabled={!urlInput.trim()}
+                disabled={!urlInput.trim() || isExpandingCollection || isReadingFeeds}
                 className="w-full btn-primary text-white py-3 rounded-xl text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none flex items-center justify-center gap-2"
               >
-                <Sparkles size={16} />
-                Fetch & Analyze
+                {isExpandingCollection || isReadingFeeds ? (
+                  <>
+                    <Loader2 size={16} className="animate-spin" />
+                    {isReadingFeeds ? 'Reading feeds...' : 'Listing videos...'}
+                  </>
+                ) : (
+                  <>
+                    <Sparkles size={16} />
+                    {pastedUrlCount > 1 ? `Fetch & Analyze ${pastedUrlCount} Links` : 'Fetch & Analyze'}
+                  </>
+                )}
               </button>
+
+              {/* Bulk Paste Summary */}
+              {urlBatch && (
+                <div className="bg-slate-50 border border-slate-100 rounded-xl p-3 text-xs">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-600">
+                      {urlBatchRemaining > 0
+                        ? `Fetching links: ${urlBatchSources.length - urlBatchRemaining} of ${urlBatchSources.length} done`
+                        : urlBatchSources.length > 0
+                          ? `${urlBatchSources.length - urlBatchFailed.length} of ${urlBatchSources.length} links added`
+                          : 'No links added'}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      {urlBatchRemaining === 0 && urlBatchFailed.length > 0 && (
+                        <button
+                          onClick={retryFailedUrls}
+                          className="px-2 py-0.5 text-brand-600 hover:bg-brand-50 rounded transition-colors"
+                        >
+                          Retry failed
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setUrlBatch(null)}
+                        className="p-1 text-slate-400 hover:text-slate-600 rounded transition-colors"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  </div>
+                  {(urlBatchFailed.length > 0 || urlBatch.skipped.length > 0) && (
+                    <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                      {urlBatchFailed.map(s => (
+                        <li key={s.id} className="text-red-600 break-all">
+                          <span className="font-medium">{s.metadata?.url}</span>: {s.errorMessage || 'Failed to process URL'}
+                        </li>
+                      ))}
+                      {urlBatch.skipped.map(({ text, reason }, i) => (
+                        <li key={i} className="text-amber-600 break-all">
+                          <span className="font-medium">{text}</span>: {reason}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
               
               {/* Extension Status */}
               <div className="pt-2 border-t border-slate-100">
@@ -410,7 +1060,8 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
               <input 
                 ref={fileInputRef}
                 type="file" 
-                accept="video/*,image/*" 
+                multiple
+                accept={`video/*,image/*,${AudioFiles.AUDIO_ACCEPT},application/pdf,.pdf,${OfficeParser.OFFICE_ACCEPT}`}
                 className="hidden"
                 onChange={handleFileUpload}
               />
@@ -418,37 +1069,32 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                 <Upload size={24} className="text-slate-400 group-hover:text-brand-500" />
               </div>
               <p className="font-medium text-slate-700">Drop files or click to upload</p>
-              <p className="text-xs text-slate-400 mt-1">Images and videos • Analyzed by Gemini</p>
+              <p className="text-xs text-slate-400 mt-1">Images, videos, audio, PDFs, Word, PowerPoint and EPUB</p>
+              <label
+                className="inline-flex items-center gap-2 mt-3 text-xs text-slate-500"
+                onClick={e => e.stopPropagation()}
+              >
+                Analyze images for
+                <select
+                  value={imageMode}
+                  onChange={e => setImageMode(e.target.value as ImageAnalysisMode)}
+                  className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+                >
+                  {Object.entries(GeminiService.IMAGE_MODE_LABELS).map(([mode, label]) => (
+                    <option key={mode} value={mode}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              {skippedFiles.length > 0 && (
+                <p className="text-xs text-amber-600 mt-2" title={skippedFiles.join('\n')}>
+                  Skipped {skippedFiles.length} unsupported file{skippedFiles.length === 1 ? '' : 's'}
+                </p>
+              )}
             </div>
           )}
 
           {activeTab === SourceType.AUDIO && (
-            <div className="flex flex-col items-center py-4">
-              {!isRecording ? (
-                <button 
-                  onClick={startRecording}
-                  className="w-20 h-20 rounded-full bg-gradient-to-br from-red-500 to-red-600 text-white flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-red-500/30"
-                >
-                  <Mic size={32} />
-                </button>
-              ) : (
-                <div className="flex flex-col items-center gap-3">
-                  <div className="flex items-center gap-2 text-red-600 font-semibold text-sm">
-                    <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                    Recording...
-                  </div>
-                  <button 
-                    onClick={stopRecording}
-                    className="w-20 h-20 rounded-full bg-red-600 text-white flex items-center justify-center hover:bg-red-700 transition-colors shadow-xl shadow-red-500/40 animate-pulse"
-                  >
-                    <StopCircle size={32} />
-                  </button>
-                </div>
-              )}
-              <p className="text-xs text-slate-500 mt-4 text-center">
-                {isRecording ? "Tap to stop and transcribe" : "Tap to start recording"}
-              </p>
-            </div>
+            <RecordingPanel voice={voice} screenCapture={screenCapture} />
           )}
         </div>
       </div>
@@ -466,6 +1112,61 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
           )}
         </div>
         
+        {/* Processing Queue */}
+        {batchTotal > 0 && (
+          <div className="mb-2 bg-white border border-slate-100 rounded-xl p-3 shadow-sm">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium text-slate-600">
+                Processed {batchTotal - activeCount} of {batchTotal}
+              </span>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-slate-400">
+                  Parallel
+                  <select
+                    value={concurrency}
+                    onChange={e => changeConcurrency(Number(e.target.value))}
+                    className="bg-slate-50 border border-slate-200 rounded px-1 py-0.5 text-slate-600"
+                  >
+                    {Array.from({ length: ProcessingQueue.MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  onClick={cancelAll}
+                  className="px-2 py-0.5 text-red-500 hover:bg-red-50 rounded transition-colors"
+                >
+                  Cancel all
+                </button>
+              </div>
+            </div>
+            <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-brand-500 transition-all"
+                style={{ width: `${((batchTotal - activeCount) / batchTotal) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Duplicate Prompts */}
+        {duplicates.prompts.map(match => {
+          const duplicate = sources.find(s => s.id === match.sourceId);
+          const existing = sources.find(s => s.id === match.existingId);
+          if (!duplicate || !existing) return null;
+          return (
+            <DuplicatePrompt
+              key={match.sourceId}
+              match={match}
+              duplicate={duplicate}
+              existing={existing}
+              onMerge={() => duplicates.merge(match)}
+              onKeep={() => duplicates.keep(match)}
+              onDiscard={() => duplicates.discard(match)}
+            />
+          );
+        })}
+
         {sources.length === 0 ? (
           <div className="text-center py-12 px-4">
             <div className="w-16 h-16 bg-slate-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
@@ -473,13 +1174,36 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
             </div>
             <p className="font-medium text-slate-500">No sources yet</p>
             <p className="text-xs text-slate-400 mt-1">Add URLs, text, or media to get started</p>
+            <p className="text-xs text-slate-400 mt-1">or paste a screenshot, link or copied text anywhere here</p>
           </div>
         ) : (
           <div className="space-y-2">
             {sources.map(source => {
+              const queuePosition = queuedIds.indexOf(source.id) + 1;
               const Icon = getSourceIcon(source);
               const isExpanded = expandedSource === source.id;
               const isYT = source.type === SourceType.URL && isYoutubeUrl(source.metadata?.url || '');
+              const textActions = (
+                <div className="flex items-center justify-end gap-1 mt-1.5">
+                  {source.metadata?.humanEdited && (
+                    <button
+                      onClick={() => revertTextEdit(source)}
+                      title="Throw away your corrections and use the extracted text again"
+                      className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                    >
+                      <Undo2 size={12} />
+                      Revert to original
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setTextEdit({ sourceId: source.id, text: source.extractedText })}
+                    className="flex items-center gap-1 px-2 py-1 text-xs text-slate-500 hover:text-brand-600 hover:bg-brand-50 rounded-lg transition-colors"
+                  >
+                    <Edit2 size={12} />
+                    Edit text
+                  </button>
+                </div>
+              );
               
               return (
                 <div 
@@ -507,11 +1231,28 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                         <p className="font-medium text-sm text-slate-800 truncate">{source.title}</p>
                       </div>
                       <p className="text-xs text-slate-400 truncate mt-0.5">
-                        {source.status === 'processing' && 'Processing...'}
+                        {source.status === 'queued' && `Queued (#${queuePosition})`}
+                        {source.status === 'processing' && (source.progress || 'Processing...')}
+                        {source.status === 'pending' && 'Possible duplicate'}
                         {source.status === 'error' && (source.errorMessage || 'Error occurred')}
-                        {source.status === 'ready' && source.metadata?.wordCount && `${source.metadata.wordCount} words extracted`}
+                        {source.status === 'ready' && (source.metadata?.channel || source.metadata?.podcast || source.metadata?.siteName) && `${source.metadata.channel || source.metadata.podcast || source.metadata.siteName} • `}
+                        {source.status === 'ready' && source.metadata?.imageMode && `${GeminiService.IMAGE_MODE_LABELS[source.metadata.imageMode]} • `}
+                        {source.status === 'ready' && !!source.metadata?.duration && `${AudioFiles.formatDuration(source.metadata.duration)} • `}
+                        {source.status === 'ready' && !!source.metadata?.pageCount && `${source.metadata.pageCount} pages • `}
+                        {source.status === 'ready' && !!source.metadata?.slideCount && `${source.metadata.slideCount} slides • `}
+                        {source.status === 'ready' && !!source.metadata?.chapterCount && `${source.metadata.chapterCount} chapters • `}
+                        {source.status === 'ready' && source.metadata?.captionOptions && source.metadata.captionLanguage && `${captionLabel(source)} • `}
+                        {source.status === 'ready' && !!source.metadata?.wordCount && `${source.metadata.wordCount} words extracted`}
+                        {source.status === 'ready' && source.metadata?.extractionMethod === 'search-grounding' && ' • search summary'}
+                        {source.status === 'ready' && source.metadata?.fromCache && ' • from cache'}
+                        {source.status === 'ready' && source.metadata?.extractionModel && ` • ${source.metadata.extractionModel}`}
+                        {source.status === 'ready' && source.metadata?.extractionInstructions && ' • custom instructions'}
+                        {source.status === 'ready' && source.metadata?.humanEdited && ' • edited'}
                         {source.status === 'ready' && !source.metadata?.wordCount && 'Ready'}
                       </p>
+                      {source.status === 'ready' && source.errorMessage && (
+                        <p className="text-xs text-amber-600 truncate mt-0.5" title={source.errorMessage}>{source.errorMessage}</p>
+                      )}
                     </div>
                     
                     {/* Actions */}
@@ -519,6 +1260,42 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                       {source.status === 'processing' && (
                         <Loader2 size={16} className="text-amber-500 animate-spin" />
                       )}
+                      {(source.status === 'queued' || source.status === 'processing') && (
+                        <button
+                          onClick={() => cancelSource(source.id)}
+                          title="Cancel"
+                          className="p-1.5 hover:bg-slate-100 text-slate-400 hover:text-slate-600 rounded-lg transition-colors"
+                        >
+                          <X size={14} />
+                        </button>
+                      )}
+                      {source.status === 'error' && (
+                        <button
+                          onClick={() => queueSource(source)}
+                          title="Retry"
+                          className="p-1.5 hover:bg-slate-100 text-slate-400 hover:text-brand-500 rounded-lg transition-colors"
+                        >
+                          <RotateCcw size={14} />
+                        </button>
+                      )}
+                      {canReprocess(source) && (
+                        <button
+                          onClick={() => setReprocessingId(source.id)}
+                          title="Re-process with..."
+                          className="p-1.5 hover:bg-slate-100 text-slate-400 hover:text-brand-500 rounded-lg transition-colors"
+                        >
+                          <Wand2 size={14} />
+                        </button>
+                      )}
+                      {source.status === 'ready' && source.metadata?.cacheKey && (
+                        <button
+                          onClick={() => confirmDiscardEdits(source) && queueSource(source, { force: true, skipDuplicateCheck: true })}
+                          title="Force re-extract (ignore cache)"
+                          className="p-1.5 hover:bg-slate-100 text-slate-400 hover:text-brand-500 rounded-lg transition-colors"
+                        >
+                          <RefreshCw size={14} />
+                        </button>
+                      )}
                       {source.status === 'ready' && (
                         <button
                           onClick={() => setExpandedSource(isExpanded ? null : source.id)}
@@ -536,8 +1313,72 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                     </div>
                   </div>
                   
+                  {/* Live transcript of a recording in progress */}
+                  {source.status === 'processing' && source.type === SourceType.AUDIO && source.extractedText && (
+                    <div className="px-3 pb-3">
+                      <p className="bg-slate-50 rounded-lg p-2 text-xs text-slate-500 leading-relaxed line-clamp-3">
+                        …{source.extractedText.slice(-300)}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Expanded Content */}
-                  {isExpanded && source.extractedText && (
+                  {isExpanded && textEdit?.sourceId === source.id ? (
+                    <div className="px-3 pb-3">
+                      <textarea
+                        value={textEdit.text}
+                        onChange={e => setTextEdit({ sourceId: source.id, text: e.target.value })}
+                        rows={12}
+                        autoFocus
+                        className="w-full p-2 bg-white border border-slate-200 rounded-lg text-xs text-slate-700 leading-relaxed focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-400 resize-y"
+                      />
+                      <div className="flex items-center justify-end gap-2 mt-1.5">
+                        <button
+                          onClick={() => setTextEdit(null)}
+                          className="px-3 py-1.5 text-xs font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={saveTextEdit}
+                          className="px-3 py-1.5 text-xs font-semibold text-white btn-primary rounded-lg"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : isExpanded && source.segments && source.segments.length > 0 && !source.metadata?.humanEdited ? (
+                    <div className="px-3 pb-3">
+                      {(source.metadata?.publishedAt || source.metadata?.viewCount !== undefined) && (
+                        <p className="text-xs text-slate-400 mb-1.5">
+                          {[
+                            source.metadata.publishedAt && `Published ${source.metadata.publishedAt}`,
+                            source.metadata.viewCount !== undefined && `${source.metadata.viewCount.toLocaleString()} views`
+                          ].filter(Boolean).join(' • ')}
+                        </p>
+                      )}
+                      <div className="bg-slate-50 rounded-lg p-2 max-h-60 overflow-y-auto space-y-0.5">
+                        {source.segments.map((segment, i) => (
+                          <div key={i} className="flex gap-2 text-xs leading-relaxed">
+                            {isYT ? (
+                              <a
+                                href={timestampUrl(source, segment.start)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="shrink-0 font-mono text-brand-600 hover:text-brand-700 hover:underline"
+                              >
+                                {AudioFiles.formatDuration(segment.start)}
+                              </a>
+                            ) : (
+                              <span className="shrink-0 font-mono text-slate-400">{AudioFiles.formatDuration(segment.start)}</span>
+                            )}
+                            <span className="text-slate-600 whitespace-pre-wrap">{segment.text}</span>
+                          </div>
+                        ))}
+                      </div>
+                      {textActions}
+                    </div>
+                  ) : isExpanded && source.extractedText && (
                     <div className="px-3 pb-3">
                       <div className="bg-slate-50 rounded-lg p-3 max-h-40 overflow-y-auto">
                         <p className="text-xs text-slate-600 whitespace-pre-wrap leading-relaxed">
@@ -545,6 +1386,7 @@ const InputHopper: React.FC<InputHopperProps> = ({ sources, setSources }) => {
                           {source.extractedText.length > 500 && '...'}
                         </p>
                       </div>
+                      {textActions}
                     </div>
                   )}
                 </div>
@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectSummary } from '../types';
+import { BUNDLE_EXTENSION } from '../services/projectBundle';
+import {
+  FolderOpen, ChevronDown, Plus, Trash2, Check, Edit2, Loader2, Download, Upload
+} from 'lucide-react';
+
+interface ProjectSwitcherProps {
+  currentId: string | null;
+  currentName: string;
+  projects: ProjectSummary[];
+  isSaving: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  currentId, currentName, projects, isSaving, onSwitch, onCreate, onRename, onDelete, onExport, onImport
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [nameInput, setNameInput] = useState(currentName);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setNameInput(currentName);
+  }, [currentName]);
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const submitRename = () => {
+    const name = nameInput.trim();
+    if (name && name !== currentName) {
+      onRename(name);
+    } else {
+      setNameInput(currentName);
+    }
+    setIsRenaming(false);
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    if (importInputRef.current) importInputRef.current.value = '';
+    setIsOpen(false);
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (confirm(`Delete "${project.name}"? Its sources and article will be lost.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2 bg-white/10 pl-3 pr-1 py-1 rounded-full">
+        <FolderOpen size={14} className="text-brand-300" />
+        {isRenaming ? (
+          <input
+            autoFocus
+            type="text"
+            value={nameInput}
+            onChange={(e) => setNameInput(e.target.value)}
+            onBlur={submitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') submitRename();
+              if (e.key === 'Escape') {
+                setNameInput(currentName);
+                setIsRenaming(false);
+              }
+            }}
+            className="bg-transparent border-b border-white/40 text-sm font-medium outline-none w-40"
+          />
+        ) : (
+          <button
+            onClick={() => setIsRenaming(true)}
+            className="text-sm font-medium max-w-[180px] truncate hover:text-brand-200 transition-colors"
+            title="Rename project"
+          >
+            {currentName}
+          </button>
+        )}
+        {isSaving ? (
+          <Loader2 size={12} className="text-slate-400 animate-spin" />
+        ) : (
+          <button
+            onClick={() => setIsRenaming(true)}
+            className="p-1 text-slate-400 hover:text-white transition-colors"
+          >
+            <Edit2 size={12} />
+          </button>
+        )}
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="p-1 hover:bg-white/10 rounded-full transition-colors"
+        >
+          <ChevronDown size={16} className={`transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-72 bg-white text-slate-700 rounded-xl shadow-2xl border border-slate-100 overflow-hidden z-40">
+          <div className="px-4 py-2 text-xs font-semibold text-slate-500 uppercase tracking-wider border-b border-slate-100">
+            Projects
+          </div>
+          <div className="max-h-72 overflow-y-auto">
+            {projects.map(project => (
+              <div
+                key={project.id}
+                className={`group flex items-center gap-2 px-4 py-2.5 cursor-pointer hover:bg-slate-50 ${
+                  project.id === currentId ? 'bg-brand-50' : ''
+                }`}
+                onClick={() => {
+                  if (project.id !== currentId) onSwitch(project.id);
+                  setIsOpen(false);
+                }}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{project.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {project.sourceCount} source{project.sourceCount !== 1 ? 's' : ''} • {new Date(project.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                {project.id === currentId ? (
+                  <Check size={16} className="text-brand-500 shrink-0" />
+                ) : (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(project);
+                    }}
+                    className="p-1.5 opacity-0 group-hover:opacity-100 hover:bg-red-50 text-slate-400 hover:text-red-500 rounded-lg transition-all"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => {
+              onCreate();
+              setIsOpen(false);
+            }}
+            className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-brand-600 hover:bg-brand-50 border-t border-slate-100 transition-colors"
+          >
+            <Plus size={16} />
+            New Project
+          </button>
+          <div className="grid grid-cols-2 border-t border-slate-100">
+            <button
+              onClick={() => {
+                onExport();
+                setIsOpen(false);
+              }}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 text-xs font-medium text-slate-600 hover:bg-slate-50 transition-colors"
+            >
+              <Download size={14} />
+              Export
+            </button>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 text-xs font-medium text-slate-600 hover:bg-slate-50 border-l border-slate-100 transition-colors"
+            >
+              <Upload size={14} />
+              Import
+            </button>
+          </div>
+        </div>
+      )}
+      <input
+        ref={importInputRef}
+        type="file"
+        accept={BUNDLE_EXTENSION}
+        className="hidden"
+        onChange={handleImportFile}
+      />
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
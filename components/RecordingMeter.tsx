@@ -0,0 +1,44 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceRecording } from '../services/voiceRecorder';
+import { formatDuration } from '../services/audioFiles';
+
+interface RecordingMeterProps {
+  // A voice recording or a screen capture
+  recording: Pick<VoiceRecording, 'elapsed' | 'level'>;
+}
+
+const BAR_COUNT = 16;
+const REFRESH_MS = 100;
+
+// Recording timer and input level, refreshed on its own so the hopper doesn't re-render
+const RecordingMeter: React.FC<RecordingMeterProps> = ({ recording }) => {
+  const [elapsed, setElapsed] = useState(recording.elapsed);
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setElapsed(recording.elapsed());
+      setLevel(recording.level());
+    }, REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  const litBars = Math.round(level * BAR_COUNT);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <span className="font-mono text-2xl font-semibold text-slate-700 tabular-nums">{formatDuration(elapsed)}</span>
+      <div className="flex items-end gap-0.5 h-6" aria-label="Input level">
+        {Array.from({ length: BAR_COUNT }, (_, i) => (
+          <span
+            key={i}
+            className={`w-1.5 rounded-full transition-colors ${i < litBars ? (i >= BAR_COUNT - 3 ? 'bg-red-500' : 'bg-emerald-500') : 'bg-slate-200'}`}
+            style={{ height: `${30 + (i / BAR_COUNT) * 70}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingMeter;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { useVoiceRecording } from '../hooks/useVoiceRecording';
+import { useScreenCapture } from '../hooks/useScreenCapture';
+import * as ScreenCapture from '../services/screenCapture';
+import RecordingMeter from './RecordingMeter';
+import { Mic, StopCircle, Pause, Play, Monitor } from 'lucide-react';
+
+interface RecordingPanelProps {
+  voice: ReturnType<typeof useVoiceRecording>;
+  screenCapture: ReturnType<typeof useScreenCapture>;
+}
+
+// Voice tab: record audio, or capture the screen instead
+const RecordingPanel: React.FC<RecordingPanelProps> = ({ voice, screenCapture }) => (
+  <div className="flex flex-col items-center py-4">
+    {voice.liveRecording ? (
+      <div className="flex flex-col items-center gap-3">
+        <div className={`flex items-center gap-2 font-semibold text-sm ${voice.isPaused ? 'text-slate-500' : 'text-red-600'}`}>
+          <span className={`w-2 h-2 rounded-full ${voice.isPaused ? 'bg-slate-400' : 'bg-red-500 animate-pulse'}`}></span>
+          {voice.isPaused ? 'Paused' : 'Recording...'}
+        </div>
+        <RecordingMeter recording={voice.liveRecording} />
+        <div className="flex items-center gap-4">
+          <button
+            onClick={voice.togglePause}
+            title={voice.isPaused ? 'Resume' : 'Pause'}
+            className="w-12 h-12 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center hover:bg-slate-200 transition-colors"
+          >
+            {voice.isPaused ? <Play size={20} /> : <Pause size={20} />}
+          </button>
+          <button 
+            onClick={voice.stop}
+            title="Stop"
+            className="w-20 h-20 rounded-full bg-red-600 text-white flex items-center justify-center hover:bg-red-700 transition-colors shadow-xl shadow-red-500/40"
+          >
+            <StopCircle size={32} />
+          </button>
+        </div>
+      </div>
+    ) : screenCapture.capture ? (
+      <div className="flex flex-col items-center gap-3">
+        <div className="flex items-center gap-2 text-red-600 font-semibold text-sm">
+          <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+          Capturing screen...
+        </div>
+        <RecordingMeter recording={screenCapture.capture} />
+        <button
+          onClick={screenCapture.stop}
+          title="Stop"
+          className="w-20 h-20 rounded-full bg-red-600 text-white flex items-center justify-center hover:bg-red-700 transition-colors shadow-xl shadow-red-500/40"
+        >
+          <StopCircle size={32} />
+        </button>
+      </div>
+    ) : (
+      <button 
+        onClick={voice.start}
+        className="w-20 h-20 rounded-full bg-gradient-to-br from-red-500 to-red-600 text-white flex items-center justify-center hover:scale-105 transition-transform shadow-lg shadow-red-500/30"
+      >
+        <Mic size={32} />
+      </button>
+    )}
+    <p className="text-xs text-slate-500 mt-4 text-center">
+      {voice.liveRecording
+        ? 'Transcribed a minute at a time as you talk • Tap stop to finish'
+        : screenCapture.capture
+          ? "Stop here or with the browser's Stop sharing button; the video is analyzed once stopped"
+          : "Tap to start recording"}
+    </p>
+    {!voice.liveRecording && !screenCapture.capture && ScreenCapture.isScreenCaptureSupported() && (
+      <div className="w-full mt-4 pt-4 border-t border-slate-100 flex items-center justify-between gap-3">
+        <button
+          onClick={screenCapture.start}
+          className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+        >
+          <Monitor size={16} />
+          Capture screen
+        </button>
+        <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={screenCapture.includeMic}
+            onChange={e => screenCapture.setIncludeMic(e.target.checked)}
+            className="rounded border-slate-300 text-brand-500"
+          />
+          Include microphone
+        </label>
+      </div>
+    )}
+  </div>
+);
+
+export default RecordingPanel;
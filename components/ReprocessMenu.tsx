@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ImageAnalysisMode, ResearchSource, SourceType } from '../types';
+import { EXTRACTION_MODEL_CHOICES, IMAGE_MODE_LABELS } from '../services/geminiService';
+import { Wand2, X } from 'lucide-react';
+
+export interface ReprocessChoice {
+  model?: string;
+  instructions?: string;
+  imageMode?: ImageAnalysisMode;
+}
+
+interface ReprocessMenuProps {
+  source: ResearchSource;
+  // Model used when none is picked, shown as the default option
+  defaultModel: string;
+  onReprocess: (choice: ReprocessChoice) => void;
+  onClose: () => void;
+}
+
+const ReprocessMenu: React.FC<ReprocessMenuProps> = ({ source, defaultModel, onReprocess, onClose }) => {
+  const [model, setModel] = useState(source.metadata?.extractionModel || '');
+  const [instructions, setInstructions] = useState(source.metadata?.extractionInstructions || '');
+  const [imageMode, setImageMode] = useState<ImageAnalysisMode>(source.metadata?.imageMode || 'general');
+  const isImage = source.type === SourceType.IMAGE;
+  const isPdf = source.type === SourceType.DOCUMENT;
+
+  const submit = () => {
+    onReprocess({
+      model: model || undefined,
+      instructions: instructions.trim() || undefined,
+      imageMode: isImage ? imageMode : undefined
+    });
+  };
+
+  // Portalled so the hopper's backdrop-filter doesn't clip the fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-brand-500 to-accent-500 p-5 text-white">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center shrink-0">
+                <Wand2 size={20} />
+              </div>
+              <div className="min-w-0">
+                <h2 className="font-display font-bold text-lg">Re-process with...</h2>
+                <p className="text-white/80 text-sm truncate">{source.title}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors shrink-0">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-5 space-y-4">
+          {isImage && (
+            <label className="block">
+              <span className="text-xs font-semibold text-slate-600">Analyze image for</span>
+              <select
+                value={imageMode}
+                onChange={e => setImageMode(e.target.value as ImageAnalysisMode)}
+                className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+              >
+                {Object.entries(IMAGE_MODE_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="block">
+            <span className="text-xs font-semibold text-slate-600">Model</span>
+            <select
+              value={model}
+              onChange={e => setModel(e.target.value)}
+              className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+            >
+              <option value="">Default ({defaultModel})</option>
+              {EXTRACTION_MODEL_CHOICES.filter(choice => choice !== defaultModel).map(choice => (
+                <option key={choice} value={choice}>{choice}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-xs font-semibold text-slate-600">Extra instructions (optional)</span>
+            <textarea
+              value={instructions}
+              onChange={e => setInstructions(e.target.value)}
+              rows={3}
+              placeholder="e.g. The speakers are Anna and Joost; keep Dutch terms as they are"
+              className="mt-1 w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm text-slate-700 resize-none focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+            />
+          </label>
+
+          <p className="text-xs text-slate-400">
+            {source.status === 'ready' && 'The current text stays until the new extraction succeeds. '}
+            {isPdf && 'PDFs are read by Gemini when a model or instructions are set, even if they have a text layer.'}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={submit}
+            className="flex-1 btn-primary text-white py-2.5 rounded-xl text-sm font-semibold flex items-center justify-center gap-2"
+          >
+            <Wand2 size={16} />
+            Re-process
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReprocessMenu;
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArticleVersion, ResearchSource } from '../types';
+import * as ArticleHistory from '../services/articleHistory';
+import { History, X, RotateCcw, Check, Layers, Cpu } from 'lucide-react';
+
+interface VersionHistoryPanelProps {
+  versions: ArticleVersion[];
+  activeVersionId?: string;
+  sources: ResearchSource[];
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  versions, activeVersionId, sources, onRestore, onClose
+}) => {
+  // Newest first
+  const ordered = useMemo(() => [...versions].sort((a, b) => b.createdAt - a.createdAt), [versions]);
+
+  const [toId, setToId] = useState<string>(activeVersionId || ordered[0]?.id || '');
+  const [fromId, setFromId] = useState<string>('');
+
+  // Default to comparing the selected version against the one before it
+  useEffect(() => {
+    const index = ordered.findIndex(v => v.id === toId);
+    const previous = ordered[index + 1];
+    setFromId(previous ? previous.id : toId);
+  }, [toId, ordered]);
+
+  const fromVersion = versions.find(v => v.id === fromId);
+  const toVersion = versions.find(v => v.id === toId);
+
+  const diff = useMemo(() => {
+    if (!fromVersion || !toVersion) return [];
+    return ArticleHistory.diffWords(
+      ArticleHistory.versionText(fromVersion),
+      ArticleHistory.versionText(toVersion)
+    );
+  }, [fromVersion, toVersion]);
+
+  const added = diff.filter(p => p.type === 'added').reduce((n, p) => n + p.text.split(/\s+/).filter(Boolean).length, 0);
+  const removed = diff.filter(p => p.type === 'removed').reduce((n, p) => n + p.text.split(/\s+/).filter(Boolean).length, 0);
+
+  const versionLabel = (version: ArticleVersion) => {
+    const number = versions.length - ordered.indexOf(version);
+    return `v${number} • ${formatTime(version.createdAt)}`;
+  };
+
+  const describeSources = (version: ArticleVersion) => {
+    const titles = version.sourceIds
+      .map(id => sources.find(s => s.id === id)?.title)
+      .filter((title): title is string => !!title);
+    const missing = version.sourceIds.length - titles.length;
+    return { titles, missing };
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[80vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-brand-500 to-accent-500 p-5 text-white shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center">
+                <History size={20} />
+              </div>
+              <div>
+                <h2 className="font-display font-bold text-lg">Version History</h2>
+                <p className="text-white/80 text-sm">{versions.length} blend{versions.length !== 1 ? 's' : ''} of this article</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Version List */}
+          <div className="w-72 border-r border-slate-100 overflow-y-auto shrink-0">
+            {ordered.map(version => {
+              const { titles, missing } = describeSources(version);
+              const isActive = version.id === activeVersionId;
+              const isSelected = version.id === toId;
+              return (
+                <div
+                  key={version.id}
+                  onClick={() => setToId(version.id)}
+                  className={`p-4 border-b border-slate-100 cursor-pointer transition-colors ${
+                    isSelected ? 'bg-brand-50' : 'hover:bg-slate-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-semibold text-slate-800 truncate">{versionLabel(version)}</p>
+                    {isActive && (
+                      <span className="text-[10px] font-semibold text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded-full flex items-center gap-1 shrink-0">
+                        <Check size={10} /> Current
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-500 truncate mt-1">{version.article.title}</p>
+                  <div className="flex items-center gap-3 text-xs text-slate-400 mt-2">
+                    <span className="flex items-center gap-1" title={titles.join('\n')}>
+                      <Layers size={12} />
+                      {version.sourceIds.length} source{version.sourceIds.length !== 1 ? 's' : ''}
+                      {missing > 0 && ` (${missing} removed)`}
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <Cpu size={12} />
+                      {version.settings.model}
+                    </span>
+                  </div>
+                  {!isActive && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRestore(version.id);
+                      }}
+                      className="mt-3 flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg transition-colors"
+                    >
+                      <RotateCcw size={12} />
+                      Restore
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Diff View */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="px-5 py-3 border-b border-slate-100 flex flex-wrap items-center gap-3 text-sm shrink-0">
+              <span className="text-slate-500">Compare</span>
+              <select
+                value={fromId}
+                onChange={(e) => setFromId(e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-xs"
+              >
+                {ordered.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+              </select>
+              <span className="text-slate-500">with</span>
+              <select
+                value={toId}
+                onChange={(e) => setToId(e.target.value)}
+                className="px-3 py-1.5 rounded-lg border border-slate-200 bg-slate-50 text-xs"
+              >
+                {ordered.map(v => <option key={v.id} value={v.id}>{versionLabel(v)}</option>)}
+              </select>
+              <span className="ml-auto text-xs">
+                <span className="text-emerald-600 font-medium">+{added}</span>
+                {' / '}
+                <span className="text-red-500 font-medium">-{removed}</span>
+                <span className="text-slate-400"> words</span>
+              </span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-5">
+              {fromId === toId ? (
+                <p className="text-sm text-slate-400 text-center py-12">Select two different versions to see what changed.</p>
+              ) : (
+                <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">
+                  {diff.map((part, i) => (
+                    <span
+                      key={i}
+                      className={
+                        part.type === 'added' ? 'bg-emerald-100 text-emerald-800' :
+                        part.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : ''
+                      }
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistoryPanel;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { YoutubeCollection } from '../services/youtubeCollections';
+import { formatDuration } from '../services/audioFiles';
+import { ListVideo, X, Plus } from 'lucide-react';
+
+interface YoutubeCollectionPickerProps {
+  collection: YoutubeCollection;
+  onAdd: (videoIds: string[]) => void;
+  onClose: () => void;
+}
+
+const YoutubeCollectionPicker: React.FC<YoutubeCollectionPickerProps> = ({ collection, onAdd, onClose }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(collection.videos.map(v => v.videoId)));
+
+  const toggle = (videoId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(videoId)) next.delete(videoId);
+      else next.add(videoId);
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === collection.videos.length;
+  const totalSeconds = collection.videos
+    .filter(v => selected.has(v.videoId))
+    .reduce((sum, v) => sum + (v.duration || 0), 0);
+
+  // Portalled so the hopper's backdrop-filter doesn't clip the fixed overlay
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-red-500 to-red-600 p-5 text-white shrink-0">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <div className="w-10 h-10 bg-white/20 rounded-xl flex items-center justify-center shrink-0">
+                <ListVideo size={20} />
+              </div>
+              <div className="min-w-0">
+                <h2 className="font-display font-bold text-lg truncate">{collection.title}</h2>
+                <p className="text-white/80 text-sm">
+                  {collection.kind === 'playlist' ? 'Playlist' : 'Channel uploads'} • {collection.videos.length} videos
+                  {collection.truncated && ' (first ones only)'}
+                </p>
+              </div>
+            </div>
+            <button onClick={onClose} className="p-2 hover:bg-white/20 rounded-lg transition-colors shrink-0">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Select All */}
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between text-xs shrink-0">
+          <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(collection.videos.map(v => v.videoId)))}
+              className="rounded border-slate-300 text-brand-500"
+            />
+            Select all
+          </label>
+          <span className="text-slate-400">
+            {selected.size} selected{totalSeconds > 0 && ` • ${formatDuration(totalSeconds)}`}
+          </span>
+        </div>
+
+        {/* Video List */}
+        <div className="flex-1 overflow-y-auto">
+          {collection.videos.map((video, i) => (
+            <label
+              key={video.videoId}
+              className="flex items-center gap-3 px-5 py-2.5 border-b border-slate-50 hover:bg-slate-50 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={selected.has(video.videoId)}
+                onChange={() => toggle(video.videoId)}
+                className="rounded border-slate-300 text-brand-500 shrink-0"
+              />
+              <span className="text-xs text-slate-400 w-6 text-right shrink-0">{i + 1}</span>
+              <span className="text-sm text-slate-700 flex-1 min-w-0 truncate" title={video.title}>{video.title}</span>
+              <span className="text-xs text-slate-400 shrink-0">
+                {video.duration ? formatDuration(video.duration) : ''}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-100 flex gap-2 shrink-0">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2.5 text-sm font-medium text-slate-600 bg-slate-100 hover:bg-slate-200 rounded-xl transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onAdd(collection.videos.filter(v => selected.has(v.videoId)).map(v => v.videoId))}
+            disabled={selected.size === 0}
+            className="flex-1 btn-primary text-white py-2.5 rounded-xl text-sm font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Plus size={16} />
+            Add {selected.size} video{selected.size !== 1 ? 's' : ''}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default YoutubeCollectionPicker;
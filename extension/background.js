@@ -10,7 +10,7 @@ chrome.runtime.onMessageExternal.addListener(
     
     if (request.action === 'ping') {
       // Health check - app uses this to detect if extension is installed
-      sendResponse({ success: true, version: '1.0.0' });
+      sendResponse({ success: true, version: '1.1.0' });
       return true;
     }
     
@@ -22,8 +22,15 @@ chrome.runtime.onMessageExternal.addListener(
         return true;
       }
       
+      // Optional caption language, manual/auto-generated choice and translation
+      const options = {
+        language: request.language,
+        isGenerated: request.isGenerated,
+        translateTo: request.translateTo
+      };
+      
       // Fetch transcript asynchronously
-      fetchTranscript(videoId)
+      fetchTranscript(videoId, options)
         .then(result => {
           console.log('Transcript fetched successfully');
           sendResponse(result);
@@ -37,6 +44,24 @@ chrome.runtime.onMessageExternal.addListener(
       return true;
     }
     
+    if (request.action === 'listCaptionTracks') {
+      const videoId = request.videoId;
+      
+      if (!videoId) {
+        sendResponse({ success: false, error: 'No video ID provided' });
+        return true;
+      }
+      
+      listCaptionTracks(videoId)
+        .then(result => sendResponse(result))
+        .catch(error => {
+          console.error('Error listing caption tracks:', error);
+          sendResponse({ success: false, error: error.message });
+        });
+      
+      return true;
+    }
+    
     sendResponse({ success: false, error: 'Unknown action' });
     return true;
   }
@@ -65,11 +90,9 @@ function extractVideoId(url) {
 }
 
 /**
- * Fetch transcript from YouTube
+ * Fetch the video page and return its caption renderer
  */
-async function fetchTranscript(videoId) {
-  console.log('Fetching transcript for video:', videoId);
-  
+async function fetchCaptionRenderer(videoId) {
   // Step 1: Fetch the video page to get caption info
   const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
   
@@ -106,29 +129,86 @@ async function fetchTranscript(videoId) {
     throw new Error(reason);
   }
   
+  return playerResponse?.captions?.playerCaptionsTracklistRenderer || {};
+}
+
+/**
+ * Display name of a caption track or language
+ */
+function displayName(name, fallback) {
+  return name?.simpleText || name?.runs?.map(r => r.text).join('') || fallback;
+}
+
+/**
+ * List a video's caption tracks and the languages YouTube can translate them to
+ */
+async function listCaptionTracks(videoId) {
+  const renderer = await fetchCaptionRenderer(videoId);
+  
+  return {
+    success: true,
+    videoId: videoId,
+    tracks: (renderer.captionTracks || []).map(track => ({
+      languageCode: track.languageCode,
+      name: displayName(track.name, track.languageCode),
+      isGenerated: track.kind === 'asr',
+      isTranslatable: !!track.isTranslatable
+    })),
+    translationLanguages: (renderer.translationLanguages || []).map(lang => ({
+      languageCode: lang.languageCode,
+      name: displayName(lang.languageName, lang.languageCode)
+    }))
+  };
+}
+
+/**
+ * Fetch transcript from YouTube
+ */
+async function fetchTranscript(videoId, options = {}) {
+  console.log('Fetching transcript for video:', videoId, options);
+  
   // Step 3: Get caption tracks
-  const captions = playerResponse?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+  const captions = (await fetchCaptionRenderer(videoId)).captionTracks;
   
   if (!captions || captions.length === 0) {
     throw new Error('No captions available for this video');
   }
   
-  // Find English captions or use the first available
-  let captionTrack = captions.find(c => 
-    c.languageCode === 'en' || 
-    c.languageCode?.startsWith('en') ||
-    c.vssId?.includes('.en')
-  );
-  
-  if (!captionTrack) {
-    captionTrack = captions[0];
-    console.log('No English captions, using:', captionTrack.languageCode);
+  let captionTrack;
+  if (options.language) {
+    // A specific track was requested
+    captionTrack = captions.find(c =>
+      c.languageCode === options.language &&
+      (options.isGenerated === undefined || (c.kind === 'asr') === options.isGenerated)
+    );
+    if (!captionTrack) {
+      throw new Error(`No ${options.language} captions available for this video`);
+    }
+  } else {
+    // Find English captions or use the first available
+    captionTrack = captions.find(c => 
+      c.languageCode === 'en' || 
+      c.languageCode?.startsWith('en') ||
+      c.vssId?.includes('.en')
+    );
+    
+    if (!captionTrack) {
+      captionTrack = captions[0];
+      console.log('No English captions, using:', captionTrack.languageCode);
+    }
   }
   
   console.log('Using caption track:', captionTrack.languageCode, captionTrack.name?.simpleText);
   
-  // Step 4: Fetch the caption XML
-  const captionUrl = captionTrack.baseUrl;
+  // Step 4: Fetch the caption XML, translated by YouTube if asked
+  let captionUrl = captionTrack.baseUrl;
+  const translated = options.translateTo && options.translateTo !== captionTrack.languageCode;
+  if (translated) {
+    if (!captionTrack.isTranslatable) {
+      throw new Error(`The ${captionTrack.languageCode} captions cannot be translated`);
+    }
+    captionUrl += `&tlang=${encodeURIComponent(options.translateTo)}`;
+  }
   const captionResponse = await fetch(captionUrl);
   
   if (!captionResponse.ok) {
@@ -174,7 +254,9 @@ async function fetchTranscript(videoId) {
     videoId: videoId,
     transcript: fullText,
     segments: segments,
-    language: captionTrack.languageCode
+    language: translated ? options.translateTo : captionTrack.languageCode,
+    isGenerated: captionTrack.kind === 'asr',
+    translatedFrom: translated ? captionTrack.languageCode : null
   };
 }
 
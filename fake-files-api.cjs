@@ -0,0 +1,199 @@
+/**
+ * Local fake of the Gemini Files API upload endpoints, for testing large
+ * media uploads without spending quota.
+ * Run with: node fake-files-api.cjs
+ * Then in the browser console:
+ *   localStorage.setItem('research_blender_files_api_url', 'http://localhost:8787')
+ *
+ * Options (environment variables):
+ *   PORT              port to listen on (default 8787)
+ *   PROCESSING_POLLS  status checks that report PROCESSING before ACTIVE (default 2)
+ *   FAIL_CHUNK        fail the Nth chunk once, to exercise resuming (default off)
+ *   FAIL_PROCESSING   report FAILED instead of ACTIVE when set to 1
+ *
+ * Only the upload and file status endpoints are faked; generateContent
+ * still goes to the real API, which won't know the fake file URIs.
+ */
+
+const http = require('http');
+const { randomUUID } = require('crypto');
+
+const PORT = Number(process.env.PORT) || 8787;
+const PROCESSING_POLLS = Number(process.env.PROCESSING_POLLS ?? 2);
+const FAIL_CHUNK = Number(process.env.FAIL_CHUNK) || 0;
+const FAIL_PROCESSING = process.env.FAIL_PROCESSING === '1';
+
+// Upload sessions and finished files; only byte counts are kept, not contents
+const sessions = new Map();
+const files = new Map();
+let chunkCount = 0;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Expose-Headers': 'X-Goog-Upload-URL, X-Goog-Upload-Status, X-Goog-Upload-Size-Received'
+};
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function sendError(res, status, message) {
+  send(res, status, { error: { code: status, message, status: 'INVALID_ARGUMENT' } });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const parts = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      // Keep request bodies small enough to parse as JSON; upload chunks are only counted
+      if (parts.length < 16) parts.push(chunk);
+    });
+    req.on('end', () => resolve({ size, text: Buffer.concat(parts).toString() }));
+    req.on('error', reject);
+  });
+}
+
+function fileResource(file) {
+  return {
+    name: file.name,
+    displayName: file.displayName,
+    mimeType: file.mimeType,
+    sizeBytes: String(file.size),
+    uri: `http://localhost:${PORT}/v1beta/${file.name}`,
+    state: file.state,
+    createTime: file.createTime
+  };
+}
+
+async function handleUpload(req, res, url) {
+  const command = (req.headers['x-goog-upload-command'] || '').toLowerCase();
+  const uploadId = url.searchParams.get('upload_id');
+
+  if (command === 'start') {
+    const body = await readBody(req);
+    const size = Number(req.headers['x-goog-upload-header-content-length']);
+    if (!Number.isFinite(size) || size <= 0) {
+      return sendError(res, 400, 'X-Goog-Upload-Header-Content-Length is required');
+    }
+    let displayName = 'upload';
+    try {
+      displayName = JSON.parse(body.text || '{}').file?.display_name || displayName;
+    } catch {
+      // The metadata body is optional
+    }
+    const id = randomUUID();
+    sessions.set(id, {
+      size,
+      received: 0,
+      mimeType: req.headers['x-goog-upload-header-content-type'] || 'application/octet-stream',
+      displayName
+    });
+    console.log(`start   ${id} ${displayName} (${size} bytes)`);
+    return send(res, 200, undefined, {
+      'X-Goog-Upload-URL': `http://localhost:${PORT}/upload/v1beta/files?upload_id=${id}&upload_protocol=resumable`,
+      'X-Goog-Upload-Status': 'active'
+    });
+  }
+
+  const session = uploadId && sessions.get(uploadId);
+  if (!session) return sendError(res, 404, 'Unknown upload session');
+
+  if (command === 'query') {
+    await readBody(req);
+    return send(res, 200, undefined, {
+      'X-Goog-Upload-Status': 'active',
+      'X-Goog-Upload-Size-Received': String(session.received)
+    });
+  }
+
+  if (command.startsWith('upload')) {
+    const offset = Number(req.headers['x-goog-upload-offset']);
+    const body = await readBody(req);
+
+    chunkCount += 1;
+    if (FAIL_CHUNK && chunkCount === FAIL_CHUNK) {
+      console.log(`chunk   ${uploadId} failing chunk #${chunkCount} on purpose`);
+      return sendError(res, 503, 'Simulated upload failure');
+    }
+    if (offset !== session.received) {
+      return sendError(res, 400, `Offset ${offset} does not match received ${session.received}`);
+    }
+
+    session.received += body.size;
+    console.log(`chunk   ${uploadId} ${session.received}/${session.size}`);
+
+    if (!command.includes('finalize')) {
+      return send(res, 200, undefined, { 'X-Goog-Upload-Status': 'active' });
+    }
+    if (session.received !== session.size) {
+      return sendError(res, 400, `Finalized with ${session.received} of ${session.size} bytes`);
+    }
+
+    sessions.delete(uploadId);
+    const file = {
+      name: `files/${uploadId.slice(0, 12)}`,
+      displayName: session.displayName,
+      mimeType: session.mimeType,
+      size: session.size,
+      state: 'PROCESSING',
+      polls: 0,
+      createTime: new Date().toISOString()
+    };
+    files.set(file.name, file);
+    console.log(`final   ${file.name}`);
+    return send(res, 200, { file: fileResource(file) }, { 'X-Goog-Upload-Status': 'final' });
+  }
+
+  return sendError(res, 400, `Unsupported upload command "${command}"`);
+}
+
+function handleFile(req, res, name) {
+  const file = files.get(name);
+  if (!file) return sendError(res, 404, `File ${name} not found`);
+
+  if (req.method === 'DELETE') {
+    files.delete(name);
+    console.log(`delete  ${name}`);
+    return send(res, 200, {});
+  }
+
+  file.polls += 1;
+  if (file.state === 'PROCESSING' && file.polls > PROCESSING_POLLS) {
+    file.state = FAIL_PROCESSING ? 'FAILED' : 'ACTIVE';
+  }
+  console.log(`status  ${name} ${file.state}`);
+  return send(res, 200, fileResource(file));
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (!url.searchParams.get('key') && !url.searchParams.get('upload_id')) {
+    return sendError(res, 403, 'API key missing');
+  }
+
+  try {
+    if (req.method === 'POST' && url.pathname === '/upload/v1beta/files') {
+      return await handleUpload(req, res, url);
+    }
+    const fileMatch = url.pathname.match(/^\/v1beta\/(files\/[\w-]+)$/);
+    if (fileMatch && (req.method === 'GET' || req.method === 'DELETE')) {
+      return handleFile(req, res, fileMatch[1]);
+    }
+    sendError(res, 404, `No fake for ${req.method} ${url.pathname}`);
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, error.message);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Gemini Files API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { ResearchSource } from '../types';
+import * as DuplicateDetection from '../services/duplicateDetection';
+import { DuplicateMatch } from '../services/duplicateDetection';
+
+interface DuplicateResolutionOptions {
+  setSources: React.Dispatch<React.SetStateAction<ResearchSource[]>>;
+  // Latest sources, for checks that run after an await
+  sourcesRef: React.MutableRefObject<ResearchSource[]>;
+  // "Keep both" on an exact duplicate that was held back before extraction
+  onKeep: (source: ResearchSource) => void;
+  onDiscard: (sourceId: string) => void;
+}
+
+/**
+ * Duplicate prompts waiting for the user to merge, keep or discard the new
+ * source. Exact duplicates are held back before extraction; near duplicates
+ * are flagged once their text is in.
+ */
+export const useDuplicateResolution = ({ setSources, sourcesRef, onKeep, onDiscard }: DuplicateResolutionOptions) => {
+  const [prompts, setPrompts] = useState<DuplicateMatch[]>([]);
+
+  const prompt = (match: DuplicateMatch) => {
+    setPrompts(prev => [...prev, match]);
+  };
+
+  const checkNearDuplicate = (source: ResearchSource) => {
+    const match = DuplicateDetection.findNearDuplicate(source, sourcesRef.current);
+    if (match) prompt(match);
+  };
+
+  const dismiss = (match: DuplicateMatch) => {
+    setPrompts(prev => prev.filter(p => p.sourceId !== match.sourceId));
+  };
+
+  // Drops the prompts about a source that was removed
+  const forgetSource = (id: string) => {
+    setPrompts(prev => prev.filter(p => p.sourceId !== id && p.existingId !== id));
+  };
+
+  // Fold the new source into the existing one: keep whichever text is more
+  // complete and remember where the duplicate came from
+  const merge = (match: DuplicateMatch) => {
+    setSources(prev => {
+      const duplicate = prev.find(s => s.id === match.sourceId);
+      if (!duplicate) return prev;
+      return prev
+        .filter(s => s.id !== match.sourceId)
+        .map(s => {
+          if (s.id !== match.existingId) return s;
+          // Hand-corrected text is never swapped for a machine extraction
+          const useDuplicateText = duplicate.status === 'ready' && !s.metadata?.humanEdited
+            && duplicate.extractedText.length > s.extractedText.length;
+          const extractedText = useDuplicateText ? duplicate.extractedText : s.extractedText;
+          return {
+            ...s,
+            extractedText,
+            segments: useDuplicateText ? duplicate.segments : s.segments,
+            metadata: {
+              ...s.metadata,
+              wordCount: useDuplicateText ? duplicate.metadata?.wordCount : s.metadata?.wordCount,
+              mergedFrom: [...(s.metadata?.mergedFrom || []), duplicate.metadata?.url || duplicate.title]
+            }
+          };
+        });
+    });
+    dismiss(match);
+  };
+
+  const keep = (match: DuplicateMatch) => {
+    dismiss(match);
+    const source = sourcesRef.current.find(s => s.id === match.sourceId);
+    if (source && source.status === 'pending') onKeep(source);
+  };
+
+  const discard = (match: DuplicateMatch) => {
+    dismiss(match);
+    onDiscard(match.sourceId);
+  };
+
+  return { prompts, prompt, checkNearDuplicate, forgetSource, merge, keep, discard };
+};
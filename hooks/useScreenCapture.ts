@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { ResearchSource, SourceType } from '../types';
+import * as ScreenCapture from '../services/screenCapture';
+
+interface ScreenCaptureOptions {
+  addSource: (source: Partial<ResearchSource>) => ResearchSource;
+  queueSource: (source: ResearchSource) => void;
+}
+
+/**
+ * Screen captures as sources. The capture is analyzed like an uploaded
+ * video once it's stopped, from the hopper or the browser's own controls.
+ */
+export const useScreenCapture = ({ addSource, queueSource }: ScreenCaptureOptions) => {
+  const captureRef = useRef<ScreenCapture.ScreenCapture | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [includeMic, setIncludeMic] = useState(false);
+
+  useEffect(() => () => {
+    captureRef.current?.discard();
+  }, []);
+
+  const start = async () => {
+    try {
+      captureRef.current = await ScreenCapture.startScreenCapture({
+        includeMic,
+        onEnded: stop
+      });
+      setIsCapturing(true);
+    } catch (err: any) {
+      console.error("Screen capture cancelled or failed", err);
+      // Closing the browser's share picker is not an error
+      if (err?.name !== 'NotAllowedError') alert(err.message || "Could not capture the screen.");
+    }
+  };
+
+  const stop = async () => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    setIsCapturing(false);
+
+    const duration = Math.round(capture.elapsed());
+    const file = await capture.stop();
+    if (file.size === 0) return;
+    const source = addSource({
+      type: SourceType.VIDEO,
+      title: 'Screen Capture',
+      originalContent: file,
+      status: 'queued',
+      metadata: { fileName: file.name, duration }
+    });
+    queueSource(source);
+  };
+
+  return {
+    capture: isCapturing ? captureRef.current : null,
+    includeMic,
+    setIncludeMic,
+    start,
+    stop
+  };
+};
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from 'react';
+import { ResearchSource, SourceType } from '../types';
+import * as VoiceRecorder from '../services/voiceRecorder';
+
+interface VoiceRecordingOptions {
+  addSource: (source: Partial<ResearchSource>) => ResearchSource;
+  updateSource: (id: string, updates: Partial<ResearchSource> | ((source: ResearchSource) => Partial<ResearchSource>)) => void;
+  // Latest sources, for reading the finished recording's source after the last segment
+  sourcesRef: React.MutableRefObject<ResearchSource[]>;
+  // Called with a recording that finished transcribing
+  onRecorded?: (source: ResearchSource) => void;
+}
+
+const countWords = (text: string) => text.trim() ? text.trim().split(/\s+/).length : 0;
+
+/**
+ * Voice recordings as sources. The source is added as soon as recording
+ * starts and its transcript grows as each segment is transcribed.
+ */
+export const useVoiceRecording = ({ addSource, updateSource, sourcesRef, onRecorded }: VoiceRecordingOptions) => {
+  // The recording in progress, and recordings still transcribing their last segment, by source ID
+  const recordingsRef = useRef(new Map<string, VoiceRecorder.VoiceRecording>());
+  const [liveRecordingId, setLiveRecordingId] = useState<string | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => () => {
+    recordingsRef.current.forEach(recording => recording.discard());
+  }, []);
+
+  const start = async () => {
+    let sourceId = '';
+    try {
+      const recording = await VoiceRecorder.startVoiceRecording({
+        onTranscript: ({ text, segments }) => updateSource(sourceId, source => ({
+          extractedText: text,
+          segments,
+          metadata: { ...source.metadata, wordCount: countWords(text) }
+        }))
+      });
+      sourceId = addSource({
+        type: SourceType.AUDIO,
+        title: 'Voice Recording',
+        // Replaced by the whole recording when it's stopped
+        originalContent: new Blob(),
+        status: 'processing',
+        progress: 'Recording...'
+      }).id;
+      recordingsRef.current.set(sourceId, recording);
+      setLiveRecordingId(sourceId);
+    } catch (err) {
+      console.error("Mic access denied or error", err);
+      alert("Microphone access is required.");
+    }
+  };
+
+  const togglePause = () => {
+    const recording = liveRecordingId && recordingsRef.current.get(liveRecordingId);
+    if (!recording) return;
+    if (recording.isPaused()) recording.resume();
+    else recording.pause();
+    setIsPaused(recording.isPaused());
+    updateSource(liveRecordingId, { progress: recording.isPaused() ? 'Recording paused' : 'Recording...' });
+  };
+
+  const stop = async () => {
+    const id = liveRecordingId;
+    const recording = id && recordingsRef.current.get(id);
+    if (!recording) return;
+    setLiveRecordingId(null);
+    setIsPaused(false);
+    updateSource(id, { progress: 'Transcribing the last part...' });
+
+    const duration = Math.round(recording.elapsed());
+    const { file, transcript } = await recording.stop();
+    // Cancelled or removed while the last segment was transcribed
+    if (!recordingsRef.current.delete(id)) return;
+
+    const wordCount = countWords(transcript.text);
+    const processed = (source: ResearchSource): Partial<ResearchSource> => ({
+      originalContent: file,
+      extractedText: transcript.text,
+      segments: transcript.segments,
+      progress: undefined,
+      metadata: { ...source.metadata, fileName: file.name, duration, wordCount }
+    });
+    if (transcript.failedParts > 0) {
+      // Retrying transcribes the whole recording in one go
+      updateSource(id, source => ({
+        ...processed(source),
+        status: 'error',
+        errorMessage: `${transcript.failedParts} of ${transcript.segments.length} parts could not be transcribed`
+      }));
+      return;
+    }
+    updateSource(id, source => ({ ...processed(source), status: 'ready' }));
+    const source = sourcesRef.current.find(s => s.id === id);
+    if (source) onRecorded?.({ ...source, ...processed(source) });
+  };
+
+  // Stops a recording without keeping it; false if the source isn't being recorded
+  const discard = (id: string) => {
+    const recording = recordingsRef.current.get(id);
+    if (!recording) return false;
+    recording.discard();
+    recordingsRef.current.delete(id);
+    if (id === liveRecordingId) {
+      setLiveRecordingId(null);
+      setIsPaused(false);
+    }
+    return true;
+  };
+
+  const discardAll = () => {
+    Array.from(recordingsRef.current.keys()).forEach(discard);
+  };
+
+  return {
+    liveRecording: liveRecordingId ? recordingsRef.current.get(liveRecordingId) : undefined,
+    isPaused,
+    start,
+    togglePause,
+    stop,
+    discard,
+    discardAll
+  };
+};
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { handler } from '../podcast-episode';
+
+const request = (start) => ({
+  httpMethod: 'POST',
+  body: JSON.stringify({ url: 'https://93.184.215.14/episode.mp3', start })
+});
+
+describe('podcast-episode', () => {
+  afterEach(() => vi.unstubAllGlobals());
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  it('fails fast when the host ignores Range on a large episode', async () => {
+    const body = new ReadableStream({ pull: () => {} });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, {
+      status: 200,
+      headers: { 'content-length': String(100 * 1024 * 1024) }
+    })));
+
+    const response = await handler(request(0));
+    expect(response.statusCode).toBe(502);
+    expect(JSON.parse(response.body).error).toContain("doesn't allow partial downloads");
+  });
+
+  it('serves a small episode sent whole in one part', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('audio bytes', { status: 200 })));
+
+    const response = await handler(request(0));
+    expect(response.headers['X-Total-Size']).toBe('11');
+    expect(Buffer.from(response.body, 'base64').toString()).toBe('audio bytes');
+  });
+});
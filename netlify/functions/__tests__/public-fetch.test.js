@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { isFetchableUrl, fetchPublicUrl } from '../lib/public-fetch';
+
+const redirectTo = (location) => new Response(null, { status: 302, headers: { location } });
+
+describe('isFetchableUrl', () => {
+  it('refuses private, loopback and link-local addresses', async () => {
+    for (const url of ['http://localhost/', 'http://127.0.0.1/', 'http://10.1.2.3/', 'http://169.254.169.254/', 'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'file:///etc/passwd']) {
+      expect(await isFetchableUrl(url), url).toBe(false);
+    }
+  });
+
+  it('accepts public addresses', async () => {
+    expect(await isFetchableUrl('https://93.184.215.14/article')).toBe(true);
+  });
+});
+
+describe('fetchPublicUrl', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('refuses a redirect to an internal address', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(redirectTo('http://169.254.169.254/latest/meta-data/'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(fetchPublicUrl('https://93.184.215.14/')).rejects.toThrow('not public');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][1].redirect).toBe('manual');
+  });
+
+  it('follows redirects between public hosts', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(redirectTo('/moved'))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await fetchPublicUrl('https://93.184.215.14/start');
+    expect(await response.text()).toBe('ok');
+    expect(fetchMock.mock.calls[1][0]).toBe('https://93.184.215.14/moved');
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseTranscriptXml } from '../youtube-transcript';
+
+vi.spyOn(console, 'log').mockImplementation(() => {});
+
+describe('parseTranscriptXml', () => {
+  it('reads start and duration of each segment', () => {
+    const xml = '<?xml version="1.0" encoding="utf-8" ?><transcript>' +
+      '<text start="1.2" dur="3.4">Hello &amp; welcome</text>' +
+      '<text dur="2" start="4.6">Attributes in any order</text>' +
+      '<text start="6.6">No duration</text>' +
+      '</transcript>';
+
+    expect(parseTranscriptXml(xml).segments).toEqual([
+      { start: 1.2, duration: 3.4, text: 'Hello & welcome' },
+      { start: 4.6, duration: 2, text: 'Attributes in any order' },
+      { start: 6.6, duration: 0, text: 'No duration' }
+    ]);
+  });
+});
@@ -0,0 +1,246 @@
+const { DOMParser, parseHTML } = require('linkedom');
+const { isFetchableUrl, fetchPublicUrl } = require('./lib/public-fetch');
+
+// Feeds can carry years of posts; only the most recent ones are listed
+const FEED_ITEM_LIMIT = 50;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+// Item summaries are only shown in the picker
+const SUMMARY_LENGTH = 300;
+
+// Podcast show notes are kept with the episode, within reason
+const SHOW_NOTES_LENGTH = 10000;
+
+/**
+ * Text of the first direct child with one of the given tag names
+ */
+function childText(el, ...names) {
+  for (const name of names) {
+    const child = Array.from(el.children).find(c => c.tagName === name);
+    const text = child?.textContent?.trim();
+    if (text) return text;
+  }
+  return null;
+}
+
+/**
+ * Plain text of an HTML fragment (descriptions are often escaped HTML)
+ */
+function toPlainText(html, maxLength = SUMMARY_LENGTH) {
+  if (!html) return null;
+  // Block-level breaks become newlines so show notes keep their paragraphs
+  const { document } = parseHTML(`<!doctype html><html><body>${html.replace(/<\/(p|div|li|h[1-6])>|<br\s*\/?>/gi, '$&\n')}</body></html>`);
+  const text = (document.body.textContent || '').replace(/[ \t]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text || null;
+}
+
+/**
+ * itunes:duration is either seconds or [hh:]mm:ss
+ */
+function toSeconds(value) {
+  if (!value) return null;
+  const seconds = value.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) && seconds > 0 ? Math.round(seconds) : null;
+}
+
+/**
+ * Audio attachment of an item: an RSS <enclosure> or an Atom rel="enclosure" link
+ */
+function audioEnclosure(el) {
+  const enclosure = Array.from(el.children).find(c =>
+    c.tagName === 'enclosure' || (c.tagName === 'link' && c.getAttribute('rel') === 'enclosure')
+  );
+  const url = enclosure?.getAttribute('url') || enclosure?.getAttribute('href');
+  const type = enclosure?.getAttribute('type') || '';
+  if (!url || !(type.startsWith('audio/') || (!type && /\.(mp3|m4a|aac|ogg|opus|wav)(\?|$)/i.test(url)))) {
+    return null;
+  }
+  return { url, type: type || null, size: Number(enclosure.getAttribute('length')) || null };
+}
+
+/**
+ * Podcast fields of an item; empty for items without an audio enclosure
+ */
+function episodeFields(item) {
+  const audio = audioEnclosure(item);
+  if (!audio) return {};
+  return {
+    audio,
+    duration: toSeconds(childText(item, 'itunes:duration')),
+    show_notes: toPlainText(childText(item, 'content:encoded', 'description', 'itunes:summary', 'content', 'summary'), SHOW_NOTES_LENGTH)
+  };
+}
+
+function toDate(value) {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+function resolveUrl(href, baseUrl) {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link of an Atom entry or feed: the rel="alternate" one, or one without a rel
+ */
+function atomLink(el) {
+  const links = Array.from(el.children).filter(c => c.tagName === 'link');
+  const link = links.find(l => l.getAttribute('rel') === 'alternate') || links.find(l => !l.getAttribute('rel'));
+  return link?.getAttribute('href') || null;
+}
+
+/**
+ * Parse RSS 2.0, RSS 1.0 (RDF) and Atom feeds into one item shape
+ */
+function parseFeed(xml) {
+  const doc = new DOMParser().parseFromString(xml, 'text/xml');
+  const root = doc.documentElement;
+  const kind = root?.tagName;
+
+  if (kind === 'feed') {
+    const items = Array.from(root.children)
+      .filter(c => c.tagName === 'entry')
+      .map(entry => {
+        const author = Array.from(entry.children).find(c => c.tagName === 'author');
+        return {
+          title: childText(entry, 'title'),
+          url: atomLink(entry),
+          published_at: toDate(childText(entry, 'published', 'updated')),
+          author: author ? childText(author, 'name') : null,
+          summary: toPlainText(childText(entry, 'summary', 'content')),
+          ...episodeFields(entry)
+        };
+      });
+    return { title: childText(root, 'title'), link: atomLink(root), items };
+  }
+
+  if (kind === 'rss' || kind === 'rdf:RDF') {
+    const channel = Array.from(root.children).find(c => c.tagName === 'channel');
+    const items = Array.from(doc.getElementsByTagName('item')).map(item => {
+      const guid = Array.from(item.children).find(c => c.tagName === 'guid');
+      // A guid is only a link when it isn't marked isPermaLink="false"
+      const guidUrl = guid && guid.getAttribute('isPermaLink') !== 'false' ? guid.textContent.trim() : null;
+      return {
+        title: childText(item, 'title'),
+        url: childText(item, 'link') || item.getAttribute('rdf:about') || guidUrl,
+        published_at: toDate(childText(item, 'pubDate', 'dc:date')),
+        author: childText(item, 'dc:creator', 'itunes:author', 'author'),
+        summary: toPlainText(childText(item, 'description', 'content:encoded')),
+        ...episodeFields(item)
+      };
+    });
+    return {
+      title: channel ? childText(channel, 'title') : null,
+      link: channel ? childText(channel, 'link') : null,
+      items
+    };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+}
+
+/**
+ * Netlify Function Handler
+ * Lists the recent items of an RSS or Atom feed
+ */
+exports.handler = async (event) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  // Handle OPTIONS request for CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method Not Allowed' })
+    };
+  }
+
+  try {
+    const { url } = JSON.parse(event.body);
+
+    if (!url || !(await isFetchableUrl(url))) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'A public http(s) URL is required' })
+      };
+    }
+
+    console.log(`Fetching feed: ${url}`);
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    let response;
+    try {
+      response = await fetchPublicUrl(url, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5'
+        }
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Feed returned ${response.status}`);
+    }
+
+    const feedUrl = response.url || url;
+    const feed = parseFeed(await response.text());
+    const items = feed.items
+      .map(item => ({
+        ...item,
+        // Episodes without a web page are still listed, linked to their audio
+        url: item.url || item.audio ? resolveUrl(item.url || item.audio.url, feedUrl) : null,
+        audio: item.audio && { ...item.audio, url: resolveUrl(item.audio.url, feedUrl) }
+      }))
+      .filter(item => item.url && (!item.audio || item.audio.url));
+
+    console.log(`Found ${items.length} items in feed "${feed.title}"`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        title: feed.title || new URL(feedUrl).hostname,
+        link: feed.link,
+        is_podcast: items.some(item => item.audio),
+        items: items.slice(0, FEED_ITEM_LIMIT).map(item => ({ ...item, title: item.title || item.url })),
+        truncated: items.length > FEED_ITEM_LIMIT
+      })
+    };
+
+  } catch (error) {
+    console.error('Error reading feed:', error.message);
+
+    const timedOut = error.name === 'AbortError';
+
+    return {
+      statusCode: timedOut ? 504 : 502,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: timedOut ? 'The feed took too long to respond' : `Could not read the feed: ${error.message}`
+      })
+    };
+  }
+};
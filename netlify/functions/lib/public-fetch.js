@@ -0,0 +1,80 @@
+const dns = require('dns').promises;
+const net = require('net');
+
+// Feed hosts and podcast trackers often chain a few redirects before the real file
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Private, loopback, link-local, carrier-grade NAT and multicast addresses
+ */
+function isPrivateAddress(address) {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127);
+  }
+
+  const v6 = address.toLowerCase();
+  const mapped = v6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return v6 === '::' || v6 === '::1' || v6.startsWith('::ffff:') ||
+    /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || v6.startsWith('ff');
+}
+
+/**
+ * Only fetch public http(s) URLs, never hosts on the function's own network.
+ * Host names are resolved, so a public name pointing at a private address
+ * is refused too.
+ */
+async function isFetchableUrl(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return false;
+  }
+  if (net.isIP(host)) return !isPrivateAddress(host);
+
+  try {
+    const addresses = await dns.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * fetch() that follows redirects itself, checking every hop with
+ * isFetchableUrl so a public URL can't redirect to an internal one.
+ * The response's `url` is the final URL.
+ */
+async function fetchPublicUrl(url, init = {}) {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await isFetchableUrl(current))) {
+      throw new Error(hop === 0 ? 'A public http(s) URL is required' : 'Redirected to an address that is not public');
+    }
+
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (!REDIRECT_STATUSES.has(response.status) || !location) return response;
+
+    await response.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+  throw new Error('Too many redirects');
+}
+
+module.exports = { isFetchableUrl, fetchPublicUrl };
@@ -0,0 +1,160 @@
+const { isFetchableUrl, fetchPublicUrl } = require('./lib/public-fetch');
+
+// Episodes are downloaded in ranges; base64 encoding must stay under the 6 MB response limit
+const EPISODE_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Refuse enclosures that would not fit in browser memory
+const MAX_EPISODE_SIZE = 500 * 1024 * 1024;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+const RANGE_UNSUPPORTED = "The podcast host doesn't allow partial downloads, and the episode is too large to fetch in one go";
+
+/**
+ * Total size of the enclosure from a ranged (206) or full (200) response
+ */
+function totalSize(response) {
+  const range = response.headers.get('content-range')?.match(/\/(\d+)$/);
+  if (range) return Number(range[1]);
+  const length = response.headers.get('content-length');
+  return response.status === 200 && length ? Number(length) : null;
+}
+
+/**
+ * Read up to one byte more than a chunk from the response body, so a
+ * host that ignored Range can be told apart from one that sent a chunk
+ */
+async function readChunk(body) {
+  const reader = body.getReader();
+  const parts = [];
+  let size = 0;
+
+  while (size <= EPISODE_CHUNK_SIZE) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    size += value.length;
+  }
+  await reader.cancel();
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Netlify Function Handler
+ * Downloads one range of a podcast episode's audio; the browser can't fetch
+ * most enclosures itself because of CORS
+ */
+exports.handler = async (event) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Expose-Headers': 'X-Total-Size',
+    'Content-Type': 'application/json'
+  };
+
+  // Handle OPTIONS request for CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method Not Allowed' })
+    };
+  }
+
+  try {
+    const { url, start: requestedStart } = JSON.parse(event.body);
+    const start = Math.max(Number(requestedStart) || 0, 0);
+
+    if (!url || !(await isFetchableUrl(url))) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'A public http(s) URL is required' })
+      };
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    let response;
+    try {
+      response = await fetchPublicUrl(url, {
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Range': `bytes=${start}-${start + EPISODE_CHUNK_SIZE - 1}`
+        }
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    // Asked for a range past the end: the download is complete
+    if (response.status === 416) {
+      return {
+        statusCode: 200,
+        headers: { ...headers, 'Content-Type': 'application/octet-stream' },
+        body: '',
+        isBase64Encoded: true
+      };
+    }
+    if (!response.ok) {
+      throw new Error(`Podcast host returned ${response.status}`);
+    }
+
+    let total = totalSize(response);
+    if (total && total > MAX_EPISODE_SIZE) {
+      throw new Error(`Episode is too large (${Math.round(total / (1024 * 1024))} MB)`);
+    }
+
+    // Hosts that ignore Range send the whole file every time. Downloading it
+    // again for each chunk would run past the function timeout on a long
+    // episode, so only files that fit in one chunk are served that way.
+    const ignoresRange = response.status === 200;
+    if (ignoresRange && total && total > EPISODE_CHUNK_SIZE) {
+      await response.body?.cancel();
+      throw new Error(RANGE_UNSUPPORTED);
+    }
+
+    const body = await readChunk(response.body);
+    if (ignoresRange && body.length > EPISODE_CHUNK_SIZE) {
+      throw new Error(RANGE_UNSUPPORTED);
+    }
+    // The whole file arrived, so its size is known and the client stops after this part
+    if (ignoresRange) total = body.length;
+    const chunk = ignoresRange ? body.subarray(start) : body.subarray(0, EPISODE_CHUNK_SIZE);
+    console.log(`Episode bytes ${start}-${start + chunk.length - 1} of ${total || 'unknown'}`);
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': (response.headers.get('content-type') || 'application/octet-stream').split(';')[0],
+        ...(total ? { 'X-Total-Size': String(total) } : {})
+      },
+      body: chunk.toString('base64'),
+      isBase64Encoded: true
+    };
+
+  } catch (error) {
+    console.error('Error downloading episode:', error.message);
+
+    const timedOut = error.name === 'AbortError';
+
+    return {
+      statusCode: timedOut ? 504 : 502,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: timedOut ? 'The podcast host took too long to respond' : `Could not download the episode: ${error.message}`
+      })
+    };
+  }
+};
@@ -0,0 +1,168 @@
+const { Readability } = require('@mozilla/readability');
+const { parseHTML } = require('linkedom');
+const { isFetchableUrl, fetchPublicUrl } = require('./lib/public-fetch');
+
+// Give up on slow sites so the client can fall back to search grounding
+const FETCH_TIMEOUT_MS = 15000;
+
+// Pages shorter than this are usually paywalls, cookie walls or app shells
+const MIN_ARTICLE_LENGTH = 200;
+
+/**
+ * Read author, publish date and site name from meta tags and JSON-LD,
+ * before Readability rewrites the document
+ */
+function readMetadata(document) {
+  const meta = (...names) => {
+    for (const name of names) {
+      const el = document.querySelector(`meta[property="${name}"], meta[name="${name}"]`);
+      const content = el?.getAttribute('content')?.trim();
+      if (content) return content;
+    }
+    return null;
+  };
+
+  let linkedData = {};
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const parsed = JSON.parse(script.textContent);
+      const items = Array.isArray(parsed) ? parsed : parsed['@graph'] || [parsed];
+      const article = items.find(item => item && item.datePublished);
+      if (article) {
+        linkedData = article;
+        break;
+      }
+    } catch {
+      // Broken JSON-LD is common; meta tags still apply
+    }
+  }
+
+  const ldAuthor = [].concat(linkedData.author || [])
+    .map(author => (typeof author === 'string' ? author : author?.name))
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    author: meta('author', 'article:author', 'parsely-author') || ldAuthor || null,
+    published: meta('article:published_time', 'datePublished', 'parsely-pub-date', 'date') || linkedData.datePublished || null,
+    site_name: meta('og:site_name', 'application-name') || null
+  };
+}
+
+/**
+ * Download a page and extract its main content with Readability
+ */
+async function fetchArticle(url) {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  let response;
+  try {
+    response = await fetchPublicUrl(url, {
+      signal: controller.signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept-Language': 'en-US,en;q=0.9',
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+      }
+    });
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Page returned ${response.status}`);
+  }
+
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('html')) {
+    throw new Error(`Not a web page (${contentType.split(';')[0] || 'unknown type'})`);
+  }
+
+  const html = await response.text();
+  const { document } = parseHTML(html);
+  const metadata = readMetadata(document);
+
+  const article = new Readability(document).parse();
+  if (!article || (article.textContent || '').trim().length < MIN_ARTICLE_LENGTH) {
+    throw new Error('Could not find the article text on this page');
+  }
+
+  const published = article.publishedTime || metadata.published;
+  const publishedDate = published ? new Date(published) : null;
+
+  return {
+    // Relative links and images resolve against the final URL after redirects
+    url: response.url || url,
+    title: article.title || null,
+    author: article.byline || metadata.author,
+    published_at: publishedDate && !isNaN(publishedDate.getTime()) ? publishedDate.toISOString().slice(0, 10) : null,
+    site_name: article.siteName || metadata.site_name,
+    excerpt: article.excerpt || null,
+    content: article.content
+  };
+}
+
+/**
+ * Netlify Function Handler
+ * Fetches a web page and returns its main article content as HTML
+ */
+exports.handler = async (event) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  // Handle OPTIONS request for CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method Not Allowed' })
+    };
+  }
+
+  try {
+    const { url } = JSON.parse(event.body);
+
+    if (!url || !(await isFetchableUrl(url))) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'A public http(s) URL is required' })
+      };
+    }
+
+    console.log(`Fetching article: ${url}`);
+    const article = await fetchArticle(url);
+    console.log(`Extracted "${article.title}" (${article.content.length} chars of HTML)`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true, ...article })
+    };
+
+  } catch (error) {
+    console.error('Error fetching article:', error.message);
+
+    const timedOut = error.name === 'AbortError';
+
+    return {
+      statusCode: timedOut ? 504 : 502,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: timedOut ? 'The page took too long to respond' : `Could not read the page: ${error.message}`
+      })
+    };
+  }
+};
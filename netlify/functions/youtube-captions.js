@@ -0,0 +1,142 @@
+/**
+ * Extract YouTube video ID from various URL formats
+ */
+function extractVideoId(url) {
+  const patterns = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^#&?]{11})/,
+    /(?:youtube\.com\/shorts\/)([^#&?]{11})/,
+  ];
+
+  for (const pattern of patterns) {
+    const match = url.match(pattern);
+    if (match) return match[1];
+  }
+
+  // Check if it's already just a video ID
+  if (/^[a-zA-Z0-9_-]{11}$/.test(url)) {
+    return url;
+  }
+
+  return null;
+}
+
+/**
+ * Read the caption track list from the video page's player response
+ */
+async function fetchCaptionTracks(videoId) {
+  const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
+
+  const pageResponse = await fetch(videoPageUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Cookie': 'CONSENT=YES+cb.20210328-17-p0.en+FX+917'
+    }
+  });
+
+  if (!pageResponse.ok) {
+    throw new Error(`Failed to fetch video page: ${pageResponse.status}`);
+  }
+
+  const html = await pageResponse.text();
+
+  const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?});(?:var|<\/script>)/s);
+  if (!playerResponseMatch) {
+    throw new Error('Could not find player response in page');
+  }
+
+  const playerResponse = JSON.parse(playerResponseMatch[1]);
+
+  const playabilityStatus = playerResponse?.playabilityStatus?.status;
+  if (playabilityStatus && playabilityStatus !== 'OK') {
+    throw new Error(playerResponse?.playabilityStatus?.reason || 'Video unavailable');
+  }
+
+  const renderer = playerResponse?.captions?.playerCaptionsTracklistRenderer;
+  const captionTracks = renderer?.captionTracks || [];
+
+  return {
+    tracks: captionTracks.map(track => ({
+      language_code: track.languageCode,
+      name: track.name?.simpleText || track.name?.runs?.map(r => r.text).join('') || track.languageCode,
+      is_generated: track.kind === 'asr',
+      is_translatable: !!track.isTranslatable
+    })),
+    translation_languages: (renderer?.translationLanguages || []).map(lang => ({
+      language_code: lang.languageCode,
+      name: lang.languageName?.simpleText || lang.languageName?.runs?.map(r => r.text).join('') || lang.languageCode
+    }))
+  };
+}
+
+/**
+ * Netlify Function Handler
+ * Lists the caption tracks (manual and auto-generated) of a video
+ */
+exports.handler = async (event) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  // Handle OPTIONS request for CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method Not Allowed' })
+    };
+  }
+
+  try {
+    const { url } = JSON.parse(event.body);
+
+    const videoId = url && extractVideoId(url);
+    if (!videoId) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'Invalid YouTube URL or video ID' })
+      };
+    }
+
+    console.log(`Listing caption tracks for video: ${videoId}`);
+    const { tracks, translation_languages } = await fetchCaptionTracks(videoId);
+    console.log(`Found ${tracks.length} caption tracks`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({
+        success: true,
+        video_id: videoId,
+        tracks,
+        translation_languages
+      })
+    };
+
+  } catch (error) {
+    console.error('Error listing captions:', error.message);
+
+    const errorMsg = error.message?.toLowerCase() || '';
+    const unavailable = errorMsg.includes('private') || errorMsg.includes('unavailable');
+
+    return {
+      statusCode: unavailable ? 404 : 500,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: unavailable ? 'Video is private or unavailable' : `Could not list captions: ${error.message}`
+      })
+    };
+  }
+};
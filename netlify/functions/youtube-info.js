@@ -20,9 +20,56 @@ function extractVideoId(url) {
   return null;
 }
 
+/**
+ * Read title, channel, publish date and stats from the video page's player response
+ */
+async function fetchVideoDetails(videoId) {
+  const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
+
+  const pageResponse = await fetch(videoPageUrl, {
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Cookie': 'CONSENT=YES+cb.20210328-17-p0.en+FX+917'
+    }
+  });
+
+  if (!pageResponse.ok) {
+    throw new Error(`Failed to fetch video page: ${pageResponse.status}`);
+  }
+
+  const html = await pageResponse.text();
+
+  const playerResponseMatch = html.match(/ytInitialPlayerResponse\s*=\s*({.+?});(?:var|<\/script>)/s);
+  if (!playerResponseMatch) {
+    throw new Error('Could not find player response in page');
+  }
+
+  const playerResponse = JSON.parse(playerResponseMatch[1]);
+  const details = playerResponse?.videoDetails;
+  if (!details) {
+    throw new Error(playerResponse?.playabilityStatus?.reason || 'Video unavailable');
+  }
+
+  const microformat = playerResponse?.microformat?.playerMicroformatRenderer || {};
+  const publishDate = microformat.publishDate || microformat.uploadDate;
+
+  return {
+    title: details.title || null,
+    channel: details.author || microformat.ownerChannelName || null,
+    channel_id: details.channelId || null,
+    // Dates come either as YYYY-MM-DD or as a full timestamp
+    published_at: publishDate ? publishDate.slice(0, 10) : null,
+    duration: Number(details.lengthSeconds) || null,
+    view_count: details.viewCount !== undefined ? Number(details.viewCount) : null,
+    description: details.shortDescription || ''
+  };
+}
+
 /**
  * Netlify Function Handler
- * Get basic YouTube video info
+ * Get YouTube video info: title, channel, publish date, duration, views and description
  */
 exports.handler = async (event) => {
   // Only allow POST requests
@@ -78,6 +125,9 @@ exports.handler = async (event) => {
       };
     }
 
+    console.log(`Fetching info for video: ${videoId}`);
+    const details = await fetchVideoDetails(videoId);
+
     // Return video info
     return {
       statusCode: 200,
@@ -85,7 +135,8 @@ exports.handler = async (event) => {
       body: JSON.stringify({
         success: true,
         video_id: videoId,
-        thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`
+        thumbnail: `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+        ...details
       })
     };
 
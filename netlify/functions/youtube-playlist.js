@@ -0,0 +1,165 @@
+// Stop following continuations after this many videos (big channels have thousands)
+const DEFAULT_LIMIT = 200;
+
+/**
+ * Work out what kind of YouTube collection a URL points to
+ */
+function parseCollectionUrl(url) {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return null;
+
+  // Playlist page (a watch URL with a list= is treated as a single video)
+  const listId = parsed.searchParams.get('list');
+  if (listId && parsed.pathname === '/playlist') {
+    return { kind: 'playlist', id: listId };
+  }
+
+  // Channel by ID: /channel/UC...
+  const channelMatch = parsed.pathname.match(/^\/channel\/(UC[\w-]{22})/);
+  if (channelMatch) {
+    return { kind: 'channel', id: channelMatch[1] };
+  }
+
+  // Channel by handle or legacy name: /@handle, /c/name, /user/name
+  if (/^\/(@[^/]+|c\/[^/]+|user\/[^/]+)/.test(parsed.pathname)) {
+    return { kind: 'channel', id: null };
+  }
+
+  return null;
+}
+
+/**
+ * Normalise the different video node types youtubei.js returns
+ */
+function toVideoEntry(item) {
+  const videoId = item.video_id || (item.type === 'PlaylistVideo' ? item.id : null);
+  if (!videoId) return null;
+
+  const duration = item.duration?.seconds;
+  return {
+    videoId,
+    title: item.title?.toString() || videoId,
+    duration: duration > 0 ? duration : null,
+    url: `https://www.youtube.com/watch?v=${videoId}`
+  };
+}
+
+/**
+ * Collect videos from a feed, following continuations up to the limit
+ */
+async function collectVideos(feed, items, limit) {
+  let page = feed;
+  const videos = [];
+  const seen = new Set();
+
+  for (;;) {
+    for (const item of items(page)) {
+      const entry = toVideoEntry(item);
+      if (entry && !seen.has(entry.videoId)) {
+        seen.add(entry.videoId);
+        videos.push(entry);
+      }
+    }
+    if (videos.length >= limit || !page.has_continuation) {
+      return { videos: videos.slice(0, limit), truncated: videos.length > limit || page.has_continuation };
+    }
+    page = await page.getContinuation();
+  }
+}
+
+/**
+ * Netlify Function Handler
+ * Expands a playlist or channel URL into its list of videos
+ */
+exports.handler = async (event) => {
+  // Enable CORS
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Content-Type': 'application/json'
+  };
+
+  // Handle OPTIONS request for CORS preflight
+  if (event.httpMethod === 'OPTIONS') {
+    return { statusCode: 200, headers, body: '' };
+  }
+
+  // Only allow POST requests
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      headers,
+      body: JSON.stringify({ success: false, error: 'Method Not Allowed' })
+    };
+  }
+
+  try {
+    const { url, limit } = JSON.parse(event.body);
+
+    const collection = url && parseCollectionUrl(url);
+    if (!collection) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ success: false, error: 'Not a YouTube playlist or channel URL' })
+      };
+    }
+
+    const maxVideos = Math.min(Number(limit) || DEFAULT_LIMIT, DEFAULT_LIMIT);
+
+    // youtubei.js is ESM-only
+    const { Innertube } = await import('youtubei.js');
+    const yt = await Innertube.create({ retrieve_player: false });
+
+    let result;
+    if (collection.kind === 'playlist') {
+      console.log(`Expanding playlist: ${collection.id}`);
+      const playlist = await yt.getPlaylist(collection.id);
+      const { videos, truncated } = await collectVideos(playlist, page => page.items, maxVideos);
+      result = { kind: 'playlist', title: playlist.info.title || 'YouTube Playlist', videos, truncated };
+    } else {
+      // Handles and custom URLs have to be resolved to a channel ID first
+      const channelId = collection.id || (await yt.resolveURL(url)).payload?.browseId;
+      if (!channelId) {
+        throw new Error('Channel not found');
+      }
+      console.log(`Expanding channel uploads: ${channelId}`);
+      const channel = await yt.getChannel(channelId);
+      const uploads = await channel.getVideos();
+      const { videos, truncated } = await collectVideos(uploads, page => page.videos, maxVideos);
+      result = { kind: 'channel', title: channel.metadata.title || 'YouTube Channel', videos, truncated };
+    }
+
+    console.log(`Found ${result.videos.length} videos in ${result.kind} "${result.title}"`);
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify({ success: true, ...result })
+    };
+
+  } catch (error) {
+    console.error('Error expanding collection:', error.message);
+
+    const errorMsg = error.message?.toLowerCase() || '';
+    const notFound = errorMsg.includes('not found') || errorMsg.includes('does not exist') || errorMsg.includes('404');
+
+    return {
+      statusCode: notFound ? 404 : 500,
+      headers,
+      body: JSON.stringify({
+        success: false,
+        error: notFound
+          ? 'Playlist or channel not found (it may be private)'
+          : `Failed to list videos: ${error.message}`
+      })
+    };
+  }
+};
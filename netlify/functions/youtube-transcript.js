@@ -20,6 +20,52 @@ function extractVideoId(url) {
   return null;
 }
 
+/**
+ * Pick a caption track. With no language requested, prefer English, then
+ * any manual track, then auto-generated. `isGenerated` restricts the match
+ * to auto-generated (true) or manual (false) tracks.
+ */
+function selectCaptionTrack(captionTracks, { language, isGenerated } = {}) {
+  const generated = (t) => t.kind === 'asr';
+
+  if (language) {
+    const matches = captionTracks.filter(t => t.languageCode === language);
+    const track = matches.find(t => isGenerated === undefined || generated(t) === isGenerated);
+    if (!track) {
+      throw new Error(`No ${language} captions available for this video`);
+    }
+    return track;
+  }
+
+  return captionTracks.find(t => t.languageCode === 'en' && !generated(t))
+    || captionTracks.find(t => t.languageCode?.startsWith('en'))
+    || captionTracks.find(t => !generated(t))
+    || captionTracks[0];
+}
+
+/**
+ * Caption URL for a track, optionally translated by YouTube
+ */
+function captionTrackUrl(track, translateTo) {
+  if (!translateTo || translateTo === track.languageCode) return track.baseUrl;
+  if (!track.isTranslatable) {
+    throw new Error(`The ${track.languageCode} captions cannot be translated`);
+  }
+  return `${track.baseUrl}&tlang=${encodeURIComponent(translateTo)}`;
+}
+
+/**
+ * Language details to return alongside a transcript
+ */
+function trackLanguage(track, translateTo) {
+  const translated = translateTo && translateTo !== track.languageCode;
+  return {
+    language: translated ? translateTo : track.languageCode,
+    isGenerated: track.kind === 'asr',
+    translatedFrom: translated ? track.languageCode : null
+  };
+}
+
 // Multiple client configurations to try (in order of preference)
 const CLIENT_CONFIGS = [
   // iOS client - often less restricted
@@ -67,7 +113,7 @@ const CLIENT_CONFIGS = [
  * Fetch transcript using YouTube's Innertube API with optional OAuth token
  * When authenticated, requests are less likely to be blocked
  */
-async function fetchTranscriptDirect(videoId, accessToken = null) {
+async function fetchTranscriptDirect(videoId, accessToken = null, options = {}) {
   console.log('Step 1: Fetching video page to get API key...');
   
   // Step 1: Fetch the video page to get the INNERTUBE_API_KEY
@@ -189,22 +235,12 @@ async function fetchTranscriptDirect(videoId, accessToken = null) {
   const captionTracks = captionsData.captionTracks;
   console.log('Found', captionTracks.length, 'caption tracks');
   
-  // Find the best caption track (prefer English, then any manual, then auto-generated)
-  let selectedTrack = captionTracks.find(t => t.languageCode === 'en' && t.kind !== 'asr');
-  if (!selectedTrack) {
-    selectedTrack = captionTracks.find(t => t.languageCode === 'en');
-  }
-  if (!selectedTrack) {
-    selectedTrack = captionTracks.find(t => t.kind !== 'asr');
-  }
-  if (!selectedTrack) {
-    selectedTrack = captionTracks[0];
-  }
+  const selectedTrack = selectCaptionTrack(captionTracks, options);
   
   console.log('Selected track:', selectedTrack.languageCode, selectedTrack.kind || 'manual');
   
   // Step 3: Fetch the actual transcript XML
-  let captionUrl = selectedTrack.baseUrl;
+  let captionUrl = captionTrackUrl(selectedTrack, options.translateTo);
   // Remove srv3 format to get plain XML
   captionUrl = captionUrl.replace('&fmt=srv3', '');
   
@@ -223,7 +259,7 @@ async function fetchTranscriptDirect(videoId, accessToken = null) {
   const transcriptXml = await transcriptResponse.text();
   console.log('Got transcript XML, length:', transcriptXml.length);
   
-  return parseTranscriptXml(transcriptXml);
+  return { ...parseTranscriptXml(transcriptXml), ...trackLanguage(selectedTrack, options.translateTo) };
 }
 
 /**
@@ -232,14 +268,17 @@ async function fetchTranscriptDirect(videoId, accessToken = null) {
 function parseTranscriptXml(transcriptXml) {
   const segments = [];
   
-  // Pattern for standard timedtext XML format
-  const textMatches = transcriptXml.matchAll(/<text[^>]*start="([^"]+)"[^>]*(?:dur="([^"]+)")?[^>]*>([\s\S]*?)<\/text>/g);
+  // Pattern for standard timedtext XML format; attributes are read separately as their order varies
+  const textMatches = transcriptXml.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g);
   
   for (const match of textMatches) {
-    const start = parseFloat(match[1]);
-    const duration = match[2] ? parseFloat(match[2]) : 0;
+    const startAttr = match[1].match(/\bstart="([^"]+)"/);
+    if (!startAttr) continue;
+    const durAttr = match[1].match(/\bdur="([^"]+)"/);
+    const start = parseFloat(startAttr[1]);
+    const duration = durAttr ? parseFloat(durAttr[1]) : 0;
     // Decode HTML entities and clean up text
-    let text = match[3]
+    let text = match[2]
       .replace(/<[^>]*>/g, '') // Remove any nested tags
       .replace(/&amp;/g, '&')
       .replace(/&lt;/g, '<')
@@ -272,7 +311,7 @@ function parseTranscriptXml(transcriptXml) {
  * Extract captions directly from YouTube video page HTML
  * This method extracts the timedtext URL from the page and fetches captions directly
  */
-async function fetchTranscriptFromPage(videoId) {
+async function fetchTranscriptFromPage(videoId, options = {}) {
   console.log('Trying to extract captions from video page HTML...');
   
   const videoPageUrl = `https://www.youtube.com/watch?v=${videoId}`;
@@ -308,16 +347,12 @@ async function fetchTranscriptFromPage(videoId) {
       return null;
     }
     
-    // Find English captions or use the first available
-    let captionTrack = captions.find(c => c.languageCode === 'en' || c.languageCode?.startsWith('en'));
-    if (!captionTrack) {
-      captionTrack = captions[0];
-    }
+    const captionTrack = selectCaptionTrack(captions, options);
     
     console.log(`Found caption track: ${captionTrack.languageCode} - ${captionTrack.name?.simpleText || 'unnamed'}`);
     
     // Fetch the caption XML
-    const captionUrl = captionTrack.baseUrl;
+    const captionUrl = captionTrackUrl(captionTrack, options.translateTo);
     const captionResponse = await fetch(captionUrl, {
       headers: {
         'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
@@ -355,7 +390,8 @@ async function fetchTranscriptFromPage(videoId) {
       console.log(`Successfully extracted ${segments.length} caption segments from page`);
       return {
         segments,
-        fullText: segments.map(s => s.text).join(' ')
+        fullText: segments.map(s => s.text).join(' '),
+        ...trackLanguage(captionTrack, options.translateTo)
       };
     }
     
@@ -367,24 +403,41 @@ async function fetchTranscriptFromPage(videoId) {
 }
 
 /**
- * Fetch transcript from third-party APIs that have solved IP blocking
+ * Fetch transcript from third-party APIs that have solved IP blocking.
+ * They can't translate, and only some of them take a language.
  */
-async function fetchTranscriptFromThirdParty(videoId) {
+async function fetchTranscriptFromThirdParty(videoId, options = {}) {
+  if (options.translateTo) return null;
+  const language = options.language;
+
   const apis = [
     // Supadata YouTube Transcript API (free tier available)
     {
       name: 'Supadata',
       fetch: async () => {
-        const response = await fetch(`https://api.supadata.ai/v1/youtube/transcript?video_id=${videoId}&text=true`, {
+        const response = await fetch(`https://api.supadata.ai/v1/youtube/transcript?video_id=${videoId}${language ? `&lang=${language}` : ''}`, {
           headers: {
             'Accept': 'application/json',
           }
         });
         if (!response.ok) return null;
         const data = await response.json();
-        if (data.content) {
+        // Timed chunks, with offsets and durations in milliseconds
+        if (Array.isArray(data.content) && data.content.length > 0) {
+          const segments = data.content.map((c) => ({
+            start: c.offset / 1000,
+            duration: c.duration / 1000,
+            text: c.text
+          }));
+          return {
+            segments,
+            fullText: segments.map(s => s.text).join(' ')
+          };
+        }
+        // Plain text has no timing to keep
+        if (typeof data.content === 'string' && data.content) {
           return {
-            segments: [{ start: 0, duration: 0, text: data.content }],
+            segments: [],
             fullText: data.content
           };
         }
@@ -395,6 +448,8 @@ async function fetchTranscriptFromThirdParty(videoId) {
     {
       name: 'YouTubeTranscript.com',
       fetch: async () => {
+        // Always returns the default track
+        if (language) return null;
         const response = await fetch(`https://youtubetranscript.com/?server_vid2=${videoId}`);
         if (!response.ok) return null;
         const text = await response.text();
@@ -429,7 +484,7 @@ async function fetchTranscriptFromThirdParty(videoId) {
     {
       name: 'Tactiq',
       fetch: async () => {
-        const response = await fetch(`https://tactiq-apps-prod.tactiq.io/transcript?videoId=${videoId}&langCode=en`);
+        const response = await fetch(`https://tactiq-apps-prod.tactiq.io/transcript?videoId=${videoId}&langCode=${language || 'en'}`);
         if (!response.ok) return null;
         const data = await response.json();
         
@@ -455,7 +510,7 @@ async function fetchTranscriptFromThirdParty(videoId) {
       const result = await api.fetch();
       if (result && result.fullText && result.fullText.length > 50) {
         console.log(`${api.name} succeeded: ${result.fullText.length} chars`);
-        return result;
+        return { ...result, language: language || null, isGenerated: null, translatedFrom: null };
       }
       console.log(`${api.name}: No valid transcript returned`);
     } catch (error) {
@@ -497,7 +552,12 @@ exports.handler = async (event) => {
   
   try {
     // Parse request body
-    const { url, accessToken } = JSON.parse(event.body);
+    const { url, accessToken, language, is_generated, translate_to } = JSON.parse(event.body);
+    const options = {
+      language: language || undefined,
+      isGenerated: typeof is_generated === 'boolean' ? is_generated : undefined,
+      translateTo: translate_to || undefined
+    };
     
     if (!url) {
       return {
@@ -526,7 +586,7 @@ exports.handler = async (event) => {
     // Method 1: Try extracting captions directly from video page HTML (most reliable)
     try {
       console.log('Method 1: Trying to extract captions from video page...');
-      result = await fetchTranscriptFromPage(videoId);
+      result = await fetchTranscriptFromPage(videoId, options);
       if (result) {
         console.log('Page extraction succeeded!');
       }
@@ -539,7 +599,7 @@ exports.handler = async (event) => {
     if (!result) {
       try {
         console.log('Method 2: Trying third-party APIs...');
-        result = await fetchTranscriptFromThirdParty(videoId);
+        result = await fetchTranscriptFromThirdParty(videoId, options);
         if (result) {
           console.log('Third-party API succeeded!');
         }
@@ -553,7 +613,7 @@ exports.handler = async (event) => {
     if (!result) {
       try {
         console.log('Method 3: Trying direct Innertube API...');
-        result = await fetchTranscriptDirect(videoId);
+        result = await fetchTranscriptDirect(videoId, null, options);
       } catch (e) {
         console.log('Innertube API failed:', e.message);
         lastError = e;
@@ -574,7 +634,10 @@ exports.handler = async (event) => {
         success: true,
         video_id: videoId,
         transcript: result.fullText,
-        segments: result.segments
+        segments: result.segments,
+        language: result.language,
+        is_generated: result.isGenerated,
+        translated_from: result.translatedFrom
       })
     };
 
@@ -607,3 +670,6 @@ exports.handler = async (event) => {
     };
   }
 };
+
+// Exported for tests
+exports.parseTranscriptXml = parseTranscriptXml;
@@ -3,10 +3,20 @@ Research Blender Backend Server
 Provides YouTube transcript fetching and other API endpoints
 """
 
-from flask import Flask, request, jsonify
+from flask import Flask, Response, request, jsonify
 from flask_cors import CORS
 from youtube_transcript_api import YouTubeTranscriptApi
+from urllib.parse import urlparse, parse_qs, urljoin
+from yt_dlp import YoutubeDL
+from readability import Document
+from lxml import html as lxml_html
+from datetime import datetime
+import requests
+import feedparser
+import ipaddress
+import json
 import re
+import socket
 
 app = Flask(__name__)
 CORS(app)  # Enable CORS for frontend requests
@@ -14,6 +24,35 @@ CORS(app)  # Enable CORS for frontend requests
 # Initialize the YouTube Transcript API client
 ytt_api = YouTubeTranscriptApi()
 
+# Stop listing after this many videos (big channels have thousands)
+PLAYLIST_LIMIT = 200
+
+# Give up on slow sites so the client can fall back to search grounding
+ARTICLE_FETCH_TIMEOUT = 15
+
+# Pages shorter than this are usually paywalls, cookie walls or app shells
+MIN_ARTICLE_LENGTH = 200
+
+# Feeds can carry years of posts; only the most recent ones are listed
+FEED_ITEM_LIMIT = 50
+
+# Item summaries are only shown in the picker
+FEED_SUMMARY_LENGTH = 300
+
+# Podcast show notes are kept with the episode, within reason
+SHOW_NOTES_LENGTH = 10000
+
+# Episodes are downloaded in ranges small enough for a serverless response
+EPISODE_CHUNK_SIZE = 4 * 1024 * 1024
+
+# Refuse enclosures that would not fit in browser memory
+MAX_EPISODE_SIZE = 500 * 1024 * 1024
+
+RANGE_UNSUPPORTED = "The podcast host doesn't allow partial downloads, and the episode is too large to fetch in one go"
+
+# Feed hosts and podcast trackers often chain a few redirects before the real file
+MAX_REDIRECTS = 5
+
 
 def extract_video_id(url: str) -> str | None:
     """Extract YouTube video ID from various URL formats"""
@@ -31,6 +70,175 @@ def extract_video_id(url: str) -> str | None:
     return None
 
 
+def parse_collection_url(url: str) -> dict | None:
+    """Work out what kind of YouTube collection a URL points to"""
+    parsed = urlparse(url)
+    if not re.search(r'(^|\.)youtube\.com$', parsed.hostname or ''):
+        return None
+    # Playlist page (a watch URL with a list= is treated as a single video)
+    list_id = parse_qs(parsed.query).get('list', [None])[0]
+    if list_id and parsed.path == '/playlist':
+        return {'kind': 'playlist', 'url': f'https://www.youtube.com/playlist?list={list_id}'}
+    # Channel by ID, handle or legacy name; list its uploads tab
+    match = re.match(r'^/(channel/UC[\w-]{22}|@[^/]+|c/[^/]+|user/[^/]+)', parsed.path)
+    if match:
+        return {'kind': 'channel', 'url': f'https://www.youtube.com/{match.group(1)}/videos'}
+    return None
+
+
+def select_track(transcript_list, language: str | None, is_generated: bool | None = None):
+    """Pick a caption track, optionally restricted to manual or auto-generated"""
+    if not language:
+        try:
+            return transcript_list.find_transcript(['en', 'en-US', 'en-GB'])
+        except Exception:
+            return next(iter(transcript_list))
+    if is_generated is True:
+        return transcript_list.find_generated_transcript([language])
+    if is_generated is False:
+        return transcript_list.find_manually_created_transcript([language])
+    return transcript_list.find_transcript([language])
+
+
+def translation_language_fields(item) -> dict:
+    """Translation languages are dicts in older youtube-transcript-api versions"""
+    if isinstance(item, dict):
+        return {'language_code': item['language_code'], 'name': item['language']}
+    return {'language_code': item.language_code, 'name': item.language}
+
+
+def is_private_address(address: str) -> bool:
+    """Private, loopback, link-local, carrier-grade NAT, reserved and multicast addresses"""
+    ip = ipaddress.ip_address(address.split('%')[0])
+    if isinstance(ip, ipaddress.IPv6Address) and ip.ipv4_mapped:
+        ip = ip.ipv4_mapped
+    return not ip.is_global or ip.is_multicast
+
+
+def is_fetchable_url(url: str) -> bool:
+    """
+    Only fetch public http(s) URLs, never hosts on the server's own network.
+    Host names are resolved, so a public name pointing at a private address
+    is refused too.
+    """
+    parsed = urlparse(url)
+    if parsed.scheme not in ('http', 'https') or not parsed.hostname:
+        return False
+    host = parsed.hostname.lower()
+    if host == 'localhost' or host.endswith(('.localhost', '.local', '.internal')):
+        return False
+    try:
+        return not is_private_address(host)
+    except ValueError:
+        pass  # Not an IP literal
+    try:
+        addresses = {info[4][0] for info in socket.getaddrinfo(host, None)}
+    except (socket.gaierror, UnicodeError):
+        return False
+    return bool(addresses) and not any(is_private_address(address) for address in addresses)
+
+
+def fetch_public_url(url: str, **kwargs) -> requests.Response:
+    """
+    requests.get() that follows redirects itself, checking every hop with
+    is_fetchable_url so a public URL can't redirect to an internal one.
+    The response's `url` is the final URL.
+    """
+    current = url
+    for hop in range(MAX_REDIRECTS + 1):
+        if not is_fetchable_url(current):
+            raise ValueError('A public http(s) URL is required' if hop == 0 else 'Redirected to an address that is not public')
+        response = requests.get(current, allow_redirects=False, **kwargs)
+        if not response.is_redirect:
+            return response
+        response.close()
+        current = urljoin(current, response.headers['location'])
+    raise ValueError('Too many redirects')
+
+
+def read_article_metadata(tree) -> dict:
+    """Read author, publish date and site name from meta tags and JSON-LD"""
+    def meta(*names):
+        for name in names:
+            values = tree.xpath('//meta[@property=$name or @name=$name]/@content', name=name)
+            if values and values[0].strip():
+                return values[0].strip()
+        return None
+
+    linked_data = {}
+    for script in tree.xpath('//script[@type="application/ld+json"]/text()'):
+        try:
+            parsed = json.loads(script)
+        except ValueError:
+            continue  # Broken JSON-LD is common; meta tags still apply
+        items = parsed if isinstance(parsed, list) else parsed.get('@graph', [parsed])
+        article = next((item for item in items if isinstance(item, dict) and item.get('datePublished')), None)
+        if article:
+            linked_data = article
+            break
+
+    authors = linked_data.get('author') or []
+    if not isinstance(authors, list):
+        authors = [authors]
+    ld_author = ', '.join(a if isinstance(a, str) else a.get('name', '') for a in authors if a)
+
+    published = meta('article:published_time', 'datePublished', 'parsely-pub-date', 'date') or linked_data.get('datePublished')
+    published_at = None
+    if published:
+        try:
+            published_at = datetime.fromisoformat(published.replace('Z', '+00:00')).date().isoformat()
+        except ValueError:
+            published_at = None
+
+    return {
+        'author': meta('author', 'article:author', 'parsely-author') or ld_author or None,
+        'published_at': published_at,
+        'site_name': meta('og:site_name', 'application-name')
+    }
+
+
+def html_to_text(html: str | None, max_length: int = FEED_SUMMARY_LENGTH) -> str | None:
+    """Plain text of an HTML fragment, keeping paragraph breaks"""
+    if not html or not html.strip():
+        return None
+    with_breaks = re.sub(r'</(p|div|li|h[1-6])>|<br\s*/?>', lambda m: m.group(0) + '\n', html, flags=re.I)
+    text = lxml_html.fromstring(f'<div>{with_breaks}</div>').text_content()
+    text = re.sub(r'\s*\n\s*', '\n', re.sub(r'[ \t]+', ' ', text)).strip()
+    return (text[:max_length] + '...' if len(text) > max_length else text) or None
+
+
+def to_seconds(value: str | None) -> int | None:
+    """itunes:duration is either seconds or [hh:]mm:ss"""
+    if not value:
+        return None
+    try:
+        seconds = 0
+        for part in str(value).split(':'):
+            seconds = seconds * 60 + float(part)
+    except ValueError:
+        return None
+    return round(seconds) if seconds > 0 else None
+
+
+def episode_fields(entry, base_url: str) -> dict:
+    """Podcast fields of a feed entry; empty for entries without an audio enclosure"""
+    enclosure = next((e for e in entry.get('enclosures', [])
+                      if e.get('href') and (e.get('type', '').startswith('audio/')
+                                            or re.search(r'\.(mp3|m4a|aac|ogg|opus|wav)(\?|$)', e['href'], re.I))), None)
+    if not enclosure:
+        return {}
+    notes = entry['content'][0].value if entry.get('content') else entry.get('summary')
+    return {
+        'audio': {
+            'url': requests.compat.urljoin(base_url, enclosure['href']),
+            'type': enclosure.get('type') or None,
+            'size': int(enclosure['length']) if str(enclosure.get('length', '')).isdigit() and int(enclosure['length']) > 0 else None
+        },
+        'duration': to_seconds(entry.get('itunes_duration')),
+        'show_notes': html_to_text(notes, SHOW_NOTES_LENGTH)
+    }
+
+
 @app.route('/api/health', methods=['GET'])
 def health_check():
     """Health check endpoint"""
@@ -44,7 +252,10 @@ def get_youtube_transcript():
     
     Request body:
     {
-        "url": "https://www.youtube.com/watch?v=VIDEO_ID"
+        "url": "https://www.youtube.com/watch?v=VIDEO_ID",
+        "language": "de",          (optional caption track language)
+        "is_generated": false,     (optional: only manual or only auto-generated)
+        "translate_to": "en"       (optional: YouTube's translation of the track)
     }
     
     Response:
@@ -52,7 +263,10 @@ def get_youtube_transcript():
         "success": true,
         "video_id": "VIDEO_ID",
         "transcript": "Full transcript text...",
-        "segments": [{"start": 0.0, "duration": 2.5, "text": "..."}]
+        "segments": [{"start": 0.0, "duration": 2.5, "text": "..."}],
+        "language": "en",
+        "is_generated": false,
+        "translated_from": "de"
     }
     """
     try:
@@ -66,25 +280,42 @@ def get_youtube_transcript():
                 'error': 'Invalid YouTube URL or video ID'
             }), 400
         
-        # Fetch transcript using the new API
-        try:
-            # Try to fetch with English preference
-            transcript = ytt_api.fetch(video_id, languages=['en', 'en-US', 'en-GB'])
+        language = data.get('language')
+        is_generated = data.get('is_generated')
+        translate_to = data.get('translate_to')
+        translated_from = None
+
+        if language or translate_to:
+            # A specific (or translated) track was requested
+            transcript_list = ytt_api.list(video_id)
+            track = select_track(transcript_list, language, is_generated)
+            if translate_to and translate_to != track.language_code:
+                if not track.is_translatable:
+                    raise Exception(f'The {track.language} captions cannot be translated')
+                translated_from = track.language_code
+                track = track.translate(translate_to)
+            transcript = track.fetch()
             segments = list(transcript)
-        except Exception as e:
-            # Try listing all available transcripts and get the first one
+        else:
+            # Fetch transcript using the new API
             try:
-                transcript_list = ytt_api.list(video_id)
-                # Get the first available transcript
-                for t in transcript_list:
-                    transcript = t.fetch()
-                    segments = list(transcript)
-                    break
-                else:
-                    raise Exception("No transcripts available")
-            except Exception as inner_e:
-                raise Exception(f"Could not fetch transcript: {str(inner_e)}")
-        
+                # Try to fetch with English preference
+                transcript = ytt_api.fetch(video_id, languages=['en', 'en-US', 'en-GB'])
+                segments = list(transcript)
+            except Exception as e:
+                # Try listing all available transcripts and get the first one
+                try:
+                    transcript_list = ytt_api.list(video_id)
+                    # Get the first available transcript
+                    for t in transcript_list:
+                        transcript = t.fetch()
+                        segments = list(transcript)
+                        break
+                    else:
+                        raise Exception("No transcripts available")
+                except Exception as inner_e:
+                    raise Exception(f"Could not fetch transcript: {str(inner_e)}")
+
         # Combine all segments into full text
         full_transcript = ' '.join([seg.text for seg in segments])
         
@@ -95,7 +326,10 @@ def get_youtube_transcript():
             'success': True,
             'video_id': video_id,
             'transcript': full_transcript,
-            'segments': segments_data
+            'segments': segments_data,
+            'language': getattr(transcript, 'language_code', None),
+            'is_generated': getattr(transcript, 'is_generated', None),
+            'translated_from': translated_from
         })
         
     except Exception as e:
@@ -123,10 +357,97 @@ def get_youtube_transcript():
             }), 500
 
 
+@app.route('/api/youtube/captions', methods=['POST'])
+def get_youtube_captions():
+    """
+    List the caption tracks of a video, manual and auto-generated
+
+    Request body:
+    {
+        "url": "https://www.youtube.com/watch?v=VIDEO_ID"
+    }
+
+    Response:
+    {
+        "success": true,
+        "video_id": "VIDEO_ID",
+        "tracks": [{"language_code": "en", "name": "English", "is_generated": false, "is_translatable": true}],
+        "translation_languages": [{"language_code": "de", "name": "German"}]
+    }
+    """
+    try:
+        data = request.get_json()
+        url = data.get('url', '')
+
+        video_id = extract_video_id(url)
+        if not video_id:
+            return jsonify({
+                'success': False,
+                'error': 'Invalid YouTube URL or video ID'
+            }), 400
+
+        transcript_list = ytt_api.list(video_id)
+        tracks = []
+        translation_languages = []
+        for track in transcript_list:
+            tracks.append({
+                'language_code': track.language_code,
+                'name': track.language,
+                'is_generated': track.is_generated,
+                'is_translatable': track.is_translatable
+            })
+            # Every translatable track offers the same target languages
+            if track.is_translatable and not translation_languages:
+                translation_languages = [translation_language_fields(t) for t in track.translation_languages]
+
+        return jsonify({
+            'success': True,
+            'video_id': video_id,
+            'tracks': tracks,
+            'translation_languages': translation_languages
+        })
+
+    except Exception as e:
+        error_msg = str(e)
+        if 'disabled' in error_msg.lower():
+            return jsonify({
+                'success': False,
+                'error': 'Transcripts are disabled for this video'
+            }), 404
+        elif 'unavailable' in error_msg.lower():
+            return jsonify({
+                'success': False,
+                'error': 'Video is unavailable'
+            }), 404
+        return jsonify({
+            'success': False,
+            'error': f'Could not list captions: {error_msg}'
+        }), 500
+
+
 @app.route('/api/youtube/info', methods=['POST'])
 def get_youtube_info():
     """
-    Get basic video info (ID validation)
+    Get video info: title, channel, publish date, duration, views and description
+
+    Request body:
+    {
+        "url": "https://www.youtube.com/watch?v=VIDEO_ID"
+    }
+
+    Response:
+    {
+        "success": true,
+        "video_id": "VIDEO_ID",
+        "thumbnail": "https://img.youtube.com/vi/VIDEO_ID/maxresdefault.jpg",
+        "title": "Video title",
+        "channel": "Channel name",
+        "channel_id": "UC...",
+        "published_at": "2024-01-31",
+        "duration": 1234,
+        "view_count": 56789,
+        "description": "Video description"
+    }
     """
     try:
         data = request.get_json()
@@ -138,11 +459,30 @@ def get_youtube_info():
                 'success': False,
                 'error': 'Invalid YouTube URL'
             }), 400
-        
+
+        options = {
+            'quiet': True,
+            'skip_download': True,
+        }
+        with YoutubeDL(options) as ydl:
+            info = ydl.extract_info(f'https://www.youtube.com/watch?v={video_id}', download=False)
+
+        # yt-dlp reports the upload date as YYYYMMDD
+        upload_date = info.get('upload_date')
+        published_at = f'{upload_date[:4]}-{upload_date[4:6]}-{upload_date[6:8]}' if upload_date else None
+        duration = info.get('duration')
+
         return jsonify({
             'success': True,
             'video_id': video_id,
-            'thumbnail': f'https://img.youtube.com/vi/{video_id}/maxresdefault.jpg'
+            'thumbnail': f'https://img.youtube.com/vi/{video_id}/maxresdefault.jpg',
+            'title': info.get('title'),
+            'channel': info.get('channel') or info.get('uploader'),
+            'channel_id': info.get('channel_id'),
+            'published_at': published_at,
+            'duration': int(duration) if duration else None,
+            'view_count': info.get('view_count'),
+            'description': info.get('description') or ''
         })
         
     except Exception as e:
@@ -152,6 +492,332 @@ def get_youtube_info():
         }), 500
 
 
+@app.route('/api/youtube/playlist', methods=['POST'])
+def get_youtube_playlist():
+    """
+    Expand a playlist or channel URL into its list of videos
+
+    Request body:
+    {
+        "url": "https://www.youtube.com/playlist?list=PLAYLIST_ID",
+        "limit": 200
+    }
+
+    Response:
+    {
+        "success": true,
+        "kind": "playlist",
+        "title": "Playlist title",
+        "videos": [{"videoId": "...", "title": "...", "duration": 123, "url": "..."}],
+        "truncated": false
+    }
+    """
+    try:
+        data = request.get_json()
+        url = data.get('url', '')
+        limit = min(int(data.get('limit') or PLAYLIST_LIMIT), PLAYLIST_LIMIT)
+
+        collection = parse_collection_url(url)
+        if not collection:
+            return jsonify({
+                'success': False,
+                'error': 'Not a YouTube playlist or channel URL'
+            }), 400
+
+        # Flat extraction lists the entries without resolving each video;
+        # one extra entry tells us whether the list was cut short
+        options = {
+            'extract_flat': 'in_playlist',
+            'playlistend': limit + 1,
+            'quiet': True,
+            'skip_download': True,
+        }
+        with YoutubeDL(options) as ydl:
+            info = ydl.extract_info(collection['url'], download=False)
+
+        videos = []
+        for entry in info.get('entries') or []:
+            video_id = entry.get('id')
+            if not video_id or len(video_id) != 11:
+                continue
+            duration = entry.get('duration')
+            videos.append({
+                'videoId': video_id,
+                'title': entry.get('title') or video_id,
+                'duration': int(duration) if duration else None,
+                'url': f'https://www.youtube.com/watch?v={video_id}'
+            })
+
+        title = info.get('title') or ('YouTube Playlist' if collection['kind'] == 'playlist' else 'YouTube Channel')
+        if collection['kind'] == 'channel':
+            # The uploads tab is titled "<channel> - Videos"
+            title = re.sub(r'\s+-\s+Videos$', '', title)
+
+        return jsonify({
+            'success': True,
+            'kind': collection['kind'],
+            'title': title,
+            'videos': videos[:limit],
+            'truncated': len(videos) > limit
+        })
+
+    except Exception as e:
+        error_msg = str(e)
+        if 'does not exist' in error_msg.lower() or 'not found' in error_msg.lower() or '404' in error_msg:
+            return jsonify({
+                'success': False,
+                'error': 'Playlist or channel not found (it may be private)'
+            }), 404
+        return jsonify({
+            'success': False,
+            'error': f'Failed to list videos: {error_msg}'
+        }), 500
+
+
+@app.route('/api/web/article', methods=['POST'])
+def get_web_article():
+    """
+    Fetch a web page and extract its main article content with readability
+
+    Request body:
+    {
+        "url": "https://example.com/post"
+    }
+
+    Response:
+    {
+        "success": true,
+        "url": "https://example.com/post",
+        "title": "Article title",
+        "author": "Jane Roe",
+        "published_at": "2024-03-05",
+        "site_name": "Example",
+        "excerpt": "First lines of the article",
+        "content": "<div><h2>...</h2><p>...</p></div>"
+    }
+    """
+    try:
+        data = request.get_json()
+        url = data.get('url', '')
+
+        if not url or not is_fetchable_url(url):
+            return jsonify({
+                'success': False,
+                'error': 'A public http(s) URL is required'
+            }), 400
+
+        response = fetch_public_url(url, timeout=ARTICLE_FETCH_TIMEOUT, headers={
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'Accept-Language': 'en-US,en;q=0.9',
+            'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+        })
+        response.raise_for_status()
+
+        content_type = response.headers.get('content-type', '')
+        if 'html' not in content_type:
+            raise ValueError(f"Not a web page ({content_type.split(';')[0] or 'unknown type'})")
+
+        page = lxml_html.fromstring(response.content)
+        metadata = read_article_metadata(page)
+        description = page.xpath('//meta[@name="description" or @property="og:description"]/@content')
+
+        document = Document(response.text)
+        content = document.summary(html_partial=True)
+        text = lxml_html.fromstring(content).text_content().strip() if content else ''
+        if len(text) < MIN_ARTICLE_LENGTH:
+            raise ValueError('Could not find the article text on this page')
+
+        return jsonify({
+            'success': True,
+            # Relative links and images resolve against the final URL after redirects
+            'url': response.url,
+            'title': document.short_title() or None,
+            'author': metadata['author'],
+            'published_at': metadata['published_at'],
+            'site_name': metadata['site_name'],
+            'excerpt': description[0].strip() if description else None,
+            'content': content
+        })
+
+    except requests.Timeout:
+        return jsonify({
+            'success': False,
+            'error': 'The page took too long to respond'
+        }), 504
+    except Exception as e:
+        return jsonify({
+            'success': False,
+            'error': f'Could not read the page: {e}'
+        }), 502
+
+
+@app.route('/api/feed', methods=['POST'])
+def get_feed():
+    """
+    List the recent items of an RSS or Atom feed
+
+    Request body:
+    {
+        "url": "https://example.com/feed.xml"
+    }
+
+    Response:
+    {
+        "success": true,
+        "title": "Feed title",
+        "link": "https://example.com",
+        "items": [{"title": "...", "url": "...", "published_at": "2024-03-05", "author": "...", "summary": "..."}],
+        "truncated": false
+    }
+    """
+    try:
+        data = request.get_json()
+        url = data.get('url', '')
+
+        if not url or not is_fetchable_url(url):
+            return jsonify({
+                'success': False,
+                'error': 'A public http(s) URL is required'
+            }), 400
+
+        response = fetch_public_url(url, timeout=ARTICLE_FETCH_TIMEOUT, headers={
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5'
+        })
+        response.raise_for_status()
+
+        feed = feedparser.parse(response.content)
+        if feed.get('version', '') == '':
+            raise ValueError('Not an RSS or Atom feed')
+
+        items = []
+        for entry in feed.entries:
+            episode = episode_fields(entry, response.url)
+            # Episodes without a web page are still listed, linked to their audio
+            link = entry.get('link') or episode.get('audio', {}).get('url')
+            if not link:
+                continue
+            published = entry.get('published_parsed') or entry.get('updated_parsed')
+            items.append({
+                'title': entry.get('title') or link,
+                'url': requests.compat.urljoin(response.url, link),
+                'published_at': f'{published.tm_year:04d}-{published.tm_mon:02d}-{published.tm_mday:02d}' if published else None,
+                'author': entry.get('author'),
+                'summary': html_to_text(entry.get('summary')),
+                **episode
+            })
+
+        return jsonify({
+            'success': True,
+            'title': feed.feed.get('title') or urlparse(response.url).hostname,
+            'link': feed.feed.get('link'),
+            'is_podcast': any('audio' in item for item in items),
+            'items': items[:FEED_ITEM_LIMIT],
+            'truncated': len(items) > FEED_ITEM_LIMIT
+        })
+
+    except requests.Timeout:
+        return jsonify({
+            'success': False,
+            'error': 'The feed took too long to respond'
+        }), 504
+    except Exception as e:
+        return jsonify({
+            'success': False,
+            'error': f'Could not read the feed: {e}'
+        }), 502
+
+
+@app.route('/api/podcast/episode', methods=['POST'])
+def get_podcast_episode():
+    """
+    Download one range of a podcast episode's audio (the browser can't
+    fetch most enclosures itself because of CORS)
+
+    Request body:
+    {
+        "url": "https://cdn.example.com/episode.mp3",
+        "start": 0
+    }
+
+    Response: up to 4 MB of audio bytes, with the enclosure's size in the
+    X-Total-Size header (absent when the host doesn't report it)
+    """
+    try:
+        data = request.get_json()
+        url = data.get('url', '')
+        start = max(int(data.get('start') or 0), 0)
+
+        if not url or not is_fetchable_url(url):
+            return jsonify({
+                'success': False,
+                'error': 'A public http(s) URL is required'
+            }), 400
+
+        end = start + EPISODE_CHUNK_SIZE - 1
+        response = fetch_public_url(url, stream=True, timeout=ARTICLE_FETCH_TIMEOUT, headers={
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'Range': f'bytes={start}-{end}'
+        })
+        if response.status_code == 416:
+            return Response(b'', mimetype='application/octet-stream')
+        response.raise_for_status()
+
+        total = None
+        content_range = response.headers.get('content-range', '')
+        if '/' in content_range and content_range.rsplit('/', 1)[1].isdigit():
+            total = int(content_range.rsplit('/', 1)[1])
+        elif response.status_code == 200 and response.headers.get('content-length', '').isdigit():
+            total = int(response.headers['content-length'])
+        if total and total > MAX_EPISODE_SIZE:
+            raise ValueError(f'Episode is too large ({total // (1024 * 1024)} MB)')
+
+        # Hosts that ignore Range send the whole file every time; downloading it
+        # again for each chunk never finishes on a long episode, so only files
+        # that fit in one chunk are served that way
+        ignores_range = response.status_code == 200
+        if ignores_range and total and total > EPISODE_CHUNK_SIZE:
+            response.close()
+            raise ValueError(RANGE_UNSUPPORTED)
+
+        # One byte more than a chunk tells a whole file apart from a full chunk
+        body = bytearray()
+        for block in response.iter_content(64 * 1024):
+            body.extend(block)
+            if len(body) > EPISODE_CHUNK_SIZE:
+                break
+        response.close()
+
+        if ignores_range:
+            if len(body) > EPISODE_CHUNK_SIZE:
+                raise ValueError(RANGE_UNSUPPORTED)
+            # The whole file arrived, so the client stops after this part
+            total = len(body)
+            chunk = body[start:]
+        else:
+            chunk = body[:EPISODE_CHUNK_SIZE]
+
+        headers = {'Access-Control-Expose-Headers': 'X-Total-Size'}
+        if total:
+            headers['X-Total-Size'] = str(total)
+        return Response(
+            bytes(chunk),
+            mimetype=response.headers.get('content-type', 'application/octet-stream').split(';')[0],
+            headers=headers
+        )
+
+    except requests.Timeout:
+        return jsonify({
+            'success': False,
+            'error': 'The podcast host took too long to respond'
+        }), 504
+    except Exception as e:
+        return jsonify({
+            'success': False,
+            'error': f'Could not download the episode: {e}'
+        }), 502
+
+
 if __name__ == '__main__':
     print("Research Blender API Server starting...")
     print("Running on http://localhost:5000")
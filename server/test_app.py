@@ -0,0 +1,57 @@
+"""
+Tests for the server's URL fetching. Run from server/ with:
+    pip install -r requirements-dev.txt && pytest
+"""
+
+import pytest
+import requests
+
+import app
+
+
+def fake_response(status: int, location: str | None = None, body: bytes = b'') -> requests.Response:
+    response = requests.Response()
+    response.status_code = status
+    response._content = body
+    if location:
+        response.headers['location'] = location
+    return response
+
+
+def test_refuses_private_loopback_and_link_local_addresses():
+    for url in ['http://localhost/', 'http://127.0.0.1/', 'http://10.1.2.3/', 'http://169.254.169.254/',
+                'http://[::1]/', 'http://[::ffff:127.0.0.1]/', 'file:///etc/passwd']:
+        assert not app.is_fetchable_url(url), url
+
+
+def test_accepts_public_addresses():
+    assert app.is_fetchable_url('https://93.184.215.14/article')
+
+
+def test_refuses_a_redirect_to_an_internal_address(monkeypatch):
+    calls = []
+
+    def get(url, **kwargs):
+        calls.append((url, kwargs))
+        return fake_response(302, 'http://169.254.169.254/latest/meta-data/')
+
+    monkeypatch.setattr(app.requests, 'get', get)
+
+    with pytest.raises(ValueError, match='not public'):
+        app.fetch_public_url('https://93.184.215.14/')
+    assert len(calls) == 1
+    assert calls[0][1]['allow_redirects'] is False
+
+
+def test_follows_redirects_between_public_hosts(monkeypatch):
+    responses = iter([fake_response(302, '/moved'), fake_response(200, body=b'ok')])
+    calls = []
+
+    def get(url, **kwargs):
+        calls.append(url)
+        return next(responses)
+
+    monkeypatch.setattr(app.requests, 'get', get)
+
+    assert app.fetch_public_url('https://93.184.215.14/start').content == b'ok'
+    assert calls[1] == 'https://93.184.215.14/moved'
@@ -0,0 +1,110 @@
+import { ArticleVersion, BlendSettings, GeneratedArticle } from '../types';
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as one replaced block
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Record a freshly blended article as a new version
+ */
+export const createVersion = (
+  article: GeneratedArticle,
+  sourceIds: string[],
+  settings: BlendSettings
+): ArticleVersion => {
+  const now = Date.now();
+  return {
+    id: `version-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    article,
+    createdAt: now,
+    sourceIds,
+    settings
+  };
+};
+
+/**
+ * Full markdown text of a version, as compared in the diff view
+ */
+export const versionText = (version: ArticleVersion): string => {
+  return `# ${version.article.title}\n\n${version.article.content}`;
+};
+
+// Split into words that keep their trailing whitespace, so joining the
+// tokens reproduces the original text exactly
+const tokenize = (text: string): string[] => text.match(/\s+|\S+\s*/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  if (!text) return;
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Word-level diff between two texts (LCS over whitespace-separated words)
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const same = (x: string, y: string) => x.trim() === y.trim();
+
+  // Trim the common prefix and suffix before running the quadratic part
+  let start = 0;
+  while (start < a.length && start < b.length && same(a[start], b[start])) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && same(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', b.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', midA.join(''));
+    pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = same(midA[i], midB[j])
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (same(midA[i], midB[j])) {
+        pushPart(parts, 'equal', midB[j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushPart(parts, 'removed', midA[i++]);
+      } else {
+        pushPart(parts, 'added', midB[j++]);
+      }
+    }
+    while (i < n) pushPart(parts, 'removed', midA[i++]);
+    while (j < m) pushPart(parts, 'added', midB[j++]);
+  }
+
+  pushPart(parts, 'equal', b.slice(endB).join(''));
+  return parts;
+};
@@ -0,0 +1,156 @@
+import { MAX_INLINE_BYTES } from './geminiFiles';
+
+// Extension -> MIME type, for files the browser reports without a type
+const AUDIO_TYPES: Record<string, string> = {
+  mp3: 'audio/mp3',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac',
+  webm: 'audio/webm'
+};
+
+// Browser-reported types that Gemini knows under another name
+const TYPE_ALIASES: Record<string, string> = {
+  'audio/mpeg': 'audio/mp3',
+  'audio/x-m4a': 'audio/mp4',
+  'audio/m4a': 'audio/mp4',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav'
+};
+
+export const AUDIO_ACCEPT = ['audio/*', ...Object.keys(AUDIO_TYPES).map(ext => `.${ext}`)].join(',');
+
+// Metadata loading should be instant; don't hold up the upload if it isn't
+const DURATION_TIMEOUT_MS = 10000;
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const isAudioFile = (file: File): boolean => {
+  return file.type.startsWith('audio/') || extensionOf(file.name) in AUDIO_TYPES;
+};
+
+/**
+ * Return the file with a MIME type Gemini accepts, inferring it from the
+ * extension when the browser didn't report one
+ */
+export const normalizeAudioFile = (file: File): File => {
+  const type = TYPE_ALIASES[file.type] || file.type || AUDIO_TYPES[extensionOf(file.name)];
+  if (!type || type === file.type) return file;
+  return new File([file], file.name, { type, lastModified: file.lastModified });
+};
+
+/**
+ * Duration of an audio file in seconds, read from its metadata by the
+ * browser. Resolves undefined when the browser can't tell.
+ */
+export const getAudioDuration = (blob: Blob): Promise<number | undefined> => {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (duration?: number) => {
+      clearTimeout(timer);
+      audio.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration && Number.isFinite(duration) ? Math.max(1, Math.round(duration)) : undefined);
+    };
+    const timer = setTimeout(() => finish(), DURATION_TIMEOUT_MS);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish();
+    audio.src = url;
+  });
+};
+
+/**
+ * Format seconds as m:ss or h:mm:ss
+ */
+export const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Re-encoded parts: 16 kHz mono 16-bit WAV is ~1.9 MB a minute
+const WAV_SAMPLE_RATE = 16000;
+const WAV_PART_SECONDS = 6 * 60;
+
+// MPEG audio (MP3, ADTS AAC) is a stream of self-contained frames, so it can be cut anywhere
+const isFrameStream = (type: string) => ['audio/mp3', 'audio/mpeg', 'audio/aac'].includes(type);
+
+/**
+ * Start of the first frame at or after `from`: an 11-bit sync word
+ */
+const nextFrameStart = (bytes: Uint8Array, from: number): number => {
+  for (let i = from; i < bytes.length - 1; i++) {
+    if (bytes[i] === 0xff && (bytes[i + 1] & 0xe0) === 0xe0) return i;
+  }
+  return bytes.length;
+};
+
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * Split audio that is too large for one inline Gemini request into parts
+ * in playback order. MP3 and AAC streams are cut at frame boundaries;
+ * other formats are decoded and re-encoded as mono WAV parts.
+ */
+export const splitForTranscription = async (blob: Blob): Promise<Blob[]> => {
+  if (blob.size <= MAX_INLINE_BYTES) return [blob];
+
+  if (isFrameStream(blob.type)) {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const parts: Blob[] = [];
+    let start = 0;
+    while (start < bytes.length) {
+      const end = start + MAX_INLINE_BYTES >= bytes.length
+        ? bytes.length
+        : nextFrameStart(bytes, start + MAX_INLINE_BYTES);
+      parts.push(new Blob([bytes.subarray(start, end)], { type: blob.type }));
+      start = end;
+    }
+    return parts;
+  }
+
+  // Decoding at the target rate keeps memory to a fraction of the source's
+  const context = new OfflineAudioContext(1, 1, WAV_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(await blob.arrayBuffer());
+  const mono = new Float32Array(audio.length);
+  for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+    const data = audio.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / audio.numberOfChannels;
+  }
+
+  const samplesPerPart = WAV_PART_SECONDS * WAV_SAMPLE_RATE;
+  const parts: Blob[] = [];
+  for (let start = 0; start < mono.length; start += samplesPerPart) {
+    parts.push(encodeWav(mono.subarray(start, start + samplesPerPart), WAV_SAMPLE_RATE));
+  }
+  return parts;
+};
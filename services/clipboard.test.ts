@@ -0,0 +1,28 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from 'vitest';
+import * as HtmlToMarkdown from './htmlToMarkdown';
+import { readClipboardData } from './clipboard';
+
+const clipboard = (payload: Record<string, string>) => ({
+  files: [],
+  getData: (type: string) => payload[type] || ''
+}) as unknown as DataTransfer;
+
+describe('readClipboardData', () => {
+  it('turns copied rich text with a quote into Markdown', () => {
+    const pasted = readClipboardData(clipboard({
+      'text/plain': 'Title Quoted',
+      'text/html': '<h2>Title</h2><blockquote>Quoted</blockquote>'
+    }));
+    expect(pasted).toEqual({ kind: 'text', text: '## Title\n\n> Quoted', title: 'Title' });
+  });
+
+  it('falls back to the plain text when the HTML cannot be converted', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(HtmlToMarkdown, 'htmlToMarkdown').mockImplementationOnce(() => {
+      throw new Error('broken');
+    });
+    const pasted = readClipboardData(clipboard({ 'text/plain': 'Plain copy', 'text/html': '<p>Rich copy</p>' }));
+    expect(pasted).toEqual({ kind: 'text', text: 'Plain copy' });
+  });
+});
@@ -0,0 +1,53 @@
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { parseUrlList } from './urlList';
+
+export type PastedContent =
+  | { kind: 'files'; files: File[] }
+  | { kind: 'urls'; text: string }
+  | { kind: 'text'; text: string; title?: string };
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\([^)]*\)/g;
+
+// Browsers name every pasted screenshot "image.png"
+const GENERIC_IMAGE_NAME = /^image\.\w+$/i;
+
+const nameScreenshot = (file: File): File => {
+  if (!file.type.startsWith('image/') || !GENERIC_IMAGE_NAME.test(file.name)) return file;
+  const stamp = new Date().toISOString().slice(0, 16).replace('T', ' ').replace(':', '-');
+  const extension = file.type.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+  return new File([file], `Pasted image ${stamp}.${extension}`, { type: file.type, lastModified: file.lastModified });
+};
+
+/**
+ * Work out what a paste holds, in order of preference: files (screenshots
+ * and copied files), links, rich text (converted to Markdown, keeping its
+ * links) and plain text. Must be called while the paste event is being
+ * handled; the clipboard data is emptied afterwards.
+ */
+export const readClipboardData = (data: DataTransfer): PastedContent | null => {
+  const files = Array.from(data.files);
+  if (files.length > 0) return { kind: 'files', files: files.map(nameScreenshot) };
+
+  const plain = data.getData('text/plain').trim();
+  if (plain) {
+    const { urls, invalid } = parseUrlList(plain);
+    if (urls.length > 0 && invalid.length === 0) return { kind: 'urls', text: plain };
+  }
+
+  const html = data.getData('text/html');
+  if (html) {
+    let markdown = '';
+    try {
+      markdown = htmlToMarkdown(html, { keepLinks: true }).trim();
+    } catch (e) {
+      // The plain text copy still gets the paste in
+      console.warn('Could not convert pasted HTML, using the plain text:', e);
+    }
+    if (markdown) {
+      const heading = markdown.match(/^#{1,6}\s+(.+)$/m)?.[1];
+      return { kind: 'text', text: markdown, title: heading?.replace(MARKDOWN_LINK, '$1').trim() };
+    }
+  }
+
+  return plain ? { kind: 'text', text: plain } : null;
+};
@@ -0,0 +1,122 @@
+import * as GeminiService from './geminiService';
+import { ProgressOptions } from './geminiFiles';
+
+export interface ParsedDocument {
+  text: string;
+  pageCount: number;
+  pageOffsets: number[];
+  extractionMethod: 'text-layer' | 'gemini';
+}
+
+// A page with fewer characters than this is treated as having no text layer
+const MIN_PAGE_CHARS = 30;
+
+const PAGE_SEPARATOR = '\n\n';
+
+export const isPdfFile = (file: File): boolean => {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+};
+
+/**
+ * Join page texts and record where each page starts in the combined text
+ */
+const joinPages = (pages: string[]): { text: string; pageOffsets: number[] } => {
+  const pageOffsets: number[] = [];
+  let text = '';
+  pages.forEach((page, i) => {
+    if (i > 0) text += PAGE_SEPARATOR;
+    pageOffsets.push(text.length);
+    text += page;
+  });
+  return { text, pageOffsets };
+};
+
+// pdf.js is large, so it is only loaded when a PDF is added
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+      'pdfjs-dist/build/pdf.worker.min.mjs',
+      import.meta.url
+    ).toString();
+  }
+  return pdfjs;
+};
+
+/**
+ * Read the embedded text layer of every page of a PDF
+ */
+const readPdfTextLayer = async (file: File): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      let pageText = '';
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        pageText += item.str;
+        pageText += item.hasEOL ? '\n' : ' ';
+      }
+      pages.push(pageText.replace(/[ \t]+/g, ' ').replace(/ ?\n ?/g, '\n').trim());
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Split Gemini's transcription on its "[[PAGE n]]" markers, keyed by page number
+ */
+const splitGeminiPages = (transcript: string): Map<number, string> => {
+  const parts = transcript.split(/^\s*\[\[PAGE (\d+)\]\]\s*$/m);
+  const pages = new Map<number, string>();
+  // parts is [before the first marker, n, text, n, text, ...]
+  for (let i = 1; i + 1 < parts.length; i += 2) {
+    pages.set(Number(parts[i]), parts[i + 1].trim());
+  }
+  return pages;
+};
+
+/**
+ * Extract a PDF's text. Uses the local text layer where a page has one and
+ * sends the PDF to Gemini document understanding for the scanned pages
+ * only. A model or instructions picked for the source send every page to
+ * Gemini.
+ */
+export const parsePdf = async (
+  file: File,
+  extraction: ProgressOptions & GeminiService.ExtractionOptions = {}
+): Promise<ParsedDocument> => {
+  let pages: string[] = [];
+  if (!extraction.model && !extraction.instructions) {
+    try {
+      pages = await readPdfTextLayer(file);
+    } catch (e) {
+      console.warn('Could not read PDF text layer, falling back to Gemini:', e);
+    }
+  }
+
+  const scannedPages = pages.flatMap((page, i) => (page.length < MIN_PAGE_CHARS ? [i + 1] : []));
+  if (pages.length > 0 && scannedPages.length === 0) {
+    return { ...joinPages(pages), pageCount: pages.length, extractionMethod: 'text-layer' };
+  }
+
+  // Without a text layer the page count comes from Gemini's markers
+  const transcript = await GeminiService.analyzeDocument(file, extraction, pages.length > 0 ? scannedPages : undefined);
+  const transcribed = splitGeminiPages(transcript);
+  if (pages.length === 0) {
+    const numbers = Array.from(transcribed.keys()).sort((a, b) => a - b);
+    pages = numbers.length > 0 ? numbers.map(n => transcribed.get(n)!) : [transcript.trim()];
+  } else {
+    // A scanned page Gemini returned nothing for keeps whatever little text it had
+    pages = pages.map((page, i) => transcribed.get(i + 1) || page);
+  }
+
+  return { ...joinPages(pages), pageCount: pages.length, extractionMethod: 'gemini' };
+};
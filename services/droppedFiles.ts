@@ -0,0 +1,50 @@
+const readEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+const entryFile = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+};
+
+// Hidden files (.DS_Store, ._resource forks) are never research material
+const isHidden = (name: string) => name.startsWith('.');
+
+const collectEntry = async (entry: FileSystemEntry, files: File[]): Promise<void> => {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    files.push(await entryFile(entry as FileSystemFileEntry));
+  } else if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns directories in batches; an empty batch means done
+    let batch = await readEntries(reader);
+    while (batch.length > 0) {
+      for (const child of batch) await collectEntry(child, files);
+      batch = await readEntries(reader);
+    }
+  }
+};
+
+/**
+ * All files in a drop, walking into any dropped folders
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be read synchronously: the DataTransfer is emptied once the
+  // drop handler yields
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.());
+
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    try {
+      await collectEntry(entry!, files);
+    } catch (e) {
+      console.warn(`Could not read dropped item ${entry!.name}:`, e);
+    }
+  }
+  return files;
+};
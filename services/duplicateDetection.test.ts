@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { ResearchSource, SourceType } from '../types';
+import { storedContentKey } from './duplicateDetection';
+
+const withMetadata = (metadata: ResearchSource['metadata']): ResearchSource => ({
+  id: 'source',
+  type: SourceType.URL,
+  title: 'Source',
+  originalContent: '',
+  extractedText: '',
+  status: 'ready',
+  metadata
+});
+
+describe('storedContentKey', () => {
+  it('reads the content identity recorded on the source', () => {
+    expect(storedContentKey(withMetadata({ contentKey: 'url:https://example.com/a' }))).toBe('url:https://example.com/a');
+  });
+
+  it('is null for sources that were never extracted', () => {
+    expect(storedContentKey(withMetadata(undefined))).toBeNull();
+  });
+});
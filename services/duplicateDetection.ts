@@ -0,0 +1,81 @@
+import { ResearchSource } from '../types';
+
+export interface DuplicateMatch {
+  sourceId: string;
+  existingId: string;
+  kind: 'exact' | 'near';
+  similarity: number;
+}
+
+// Words per shingle when comparing texts
+const SHINGLE_SIZE = 5;
+
+// Share of the shorter text that must appear in the longer one
+export const NEAR_DUPLICATE_THRESHOLD = 0.6;
+
+// Texts shorter than this many words are too small to compare reliably
+const MIN_WORDS = 30;
+
+const shingles = (text: string): Set<string> => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) || [];
+  const result = new Set<string>();
+  if (words.length < MIN_WORDS) return result;
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+};
+
+/**
+ * Containment similarity (0-1): how much of the shorter text's word
+ * shingles also appear in the longer one. Unlike Jaccard this catches a
+ * blog post that quotes most of a much longer transcript.
+ */
+export const textSimilarity = (a: string, b: string): number => {
+  const setA = shingles(a);
+  const setB = shingles(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+  const [small, large] = setA.size <= setB.size ? [setA, setB] : [setB, setA];
+  let shared = 0;
+  for (const shingle of small) {
+    if (large.has(shingle)) shared++;
+  }
+  return shared / small.size;
+};
+
+/**
+ * Content identity recorded on a source (see ExtractionCache.contentKeyFor)
+ */
+export const storedContentKey = (source: ResearchSource): string | null =>
+  source.metadata?.contentKey ?? null;
+
+/**
+ * Find an existing source with the same content identity
+ */
+export const findExactDuplicate = (
+  source: ResearchSource,
+  contentKey: string,
+  existing: ResearchSource[]
+): DuplicateMatch | null => {
+  const match = existing.find(s => s.id !== source.id && storedContentKey(s) === contentKey);
+  return match ? { sourceId: source.id, existingId: match.id, kind: 'exact', similarity: 1 } : null;
+};
+
+/**
+ * Find the ready source whose extracted text overlaps most with this one,
+ * if the overlap reaches NEAR_DUPLICATE_THRESHOLD
+ */
+export const findNearDuplicate = (
+  source: ResearchSource,
+  existing: ResearchSource[]
+): DuplicateMatch | null => {
+  let best: DuplicateMatch | null = null;
+  for (const other of existing) {
+    if (other.id === source.id || other.status !== 'ready') continue;
+    const similarity = textSimilarity(source.extractedText, other.extractedText);
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { sourceId: source.id, existingId: other.id, kind: 'near', similarity };
+    }
+  }
+  return best;
+};
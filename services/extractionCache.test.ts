@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { ResearchSource, SourceType } from '../types';
+import { EXTRACTION_MODELS } from './geminiService';
+import { cacheKeyFor, extractionModelFor, takesExtractionOptions } from './extractionCache';
+
+const source = (type: SourceType, originalContent: ResearchSource['originalContent']): ResearchSource => ({
+  id: 'source',
+  type,
+  title: 'Source',
+  originalContent,
+  extractedText: '',
+  status: 'ready',
+  metadata: { extractionModel: 'gemini-2.5-pro', extractionInstructions: 'Keep Dutch terms' }
+});
+
+describe('re-process options', () => {
+  it('apply to PDFs and media', async () => {
+    const pdf = source(SourceType.DOCUMENT, new File(['%PDF'], 'paper.pdf', { type: 'application/pdf' }));
+    expect(takesExtractionOptions(pdf)).toBe(true);
+    expect(extractionModelFor(pdf)).toBe('gemini-2.5-pro');
+    expect(await cacheKeyFor(pdf, 'sha256:abc')).toBe('gemini-2.5-pro|sha256:abc|prompt:Keep Dutch terms');
+  });
+
+  it('are ignored for links, which no model extracts', async () => {
+    const link = source(SourceType.URL, 'https://example.com/article');
+    expect(takesExtractionOptions(link)).toBe(false);
+    expect(extractionModelFor(link)).toBe(EXTRACTION_MODELS.article);
+    expect(await cacheKeyFor(link)).toBe(`${EXTRACTION_MODELS.article}|url:https://example.com/article`);
+  });
+});
@@ -0,0 +1,143 @@
+import { CachedExtraction, ResearchSource, SourceType } from '../types';
+import { EXTRACTIONS_STORE, withStore } from './database';
+import { EXTRACTION_MODELS, extractVideoId, isYoutubeUrl } from './geminiService';
+import { isPdfFile } from './documentParser';
+
+// Query parameters that never change what a page shows
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|si|feature)$/i;
+
+/**
+ * Normalize a URL so trivially different spellings of the same page match:
+ * lowercase host, no "www.", no fragment, no tracking params, sorted query,
+ * no trailing slash.
+ */
+export const canonicalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const params = [...parsed.searchParams.entries()]
+      .filter(([name]) => !TRACKING_PARAMS.test(name))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * SHA-256 of a file's bytes as a hex string
+ */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * Identity of a source's content, independent of how it was added:
+ * the video ID for YouTube, the canonical URL for web pages, and a
+ * SHA-256 of the bytes for uploads and recordings.
+ */
+export const contentKeyFor = async (source: ResearchSource): Promise<string | null> => {
+  const content = source.originalContent;
+  if (typeof content === 'string') {
+    // Links, and podcast episodes stored by their enclosure URL
+    if (source.type !== SourceType.URL && source.type !== SourceType.AUDIO) return null;
+    if (isYoutubeUrl(content)) {
+      const videoId = extractVideoId(content);
+      if (videoId) return `youtube:${videoId}`;
+    }
+    return `url:${canonicalizeUrl(content)}`;
+  }
+  return `sha256:${await hashBlob(content)}`;
+};
+
+/**
+ * Whether a source is extracted by a Gemini call that takes a picked model
+ * and extra instructions. Links are not: YouTube transcripts and web
+ * articles are fetched as they are, and Office and text files are parsed
+ * locally.
+ */
+export const takesExtractionOptions = (source: ResearchSource): boolean =>
+  [SourceType.IMAGE, SourceType.VIDEO, SourceType.AUDIO].includes(source.type) ||
+  (source.type === SourceType.DOCUMENT && source.originalContent instanceof File && isPdfFile(source.originalContent));
+
+/**
+ * Model that produces the extracted text for a source
+ */
+export const extractionModelFor = (source: ResearchSource): string => {
+  if (source.metadata?.extractionModel && takesExtractionOptions(source)) return source.metadata.extractionModel;
+  switch (source.type) {
+    case SourceType.IMAGE: return EXTRACTION_MODELS.image;
+    case SourceType.VIDEO: return EXTRACTION_MODELS.video;
+    case SourceType.AUDIO: return EXTRACTION_MODELS.audio;
+    case SourceType.DOCUMENT:
+      return source.originalContent instanceof File && isPdfFile(source.originalContent)
+        ? EXTRACTION_MODELS.document
+        : EXTRACTION_MODELS.parser;
+    case SourceType.TEXT:
+    case SourceType.PRESENTATION:
+    case SourceType.EBOOK:
+      return EXTRACTION_MODELS.parser;
+    default:
+      return typeof source.originalContent === 'string' && isYoutubeUrl(source.originalContent)
+        ? EXTRACTION_MODELS.youtube
+        : EXTRACTION_MODELS.article;
+  }
+};
+
+/**
+ * Cache key for a source: its content identity plus the model name, so
+ * switching models doesn't serve stale extractions. YouTube sources with a
+ * chosen caption track also key on that track.
+ * Returns null for sources that are never extracted (plain text).
+ * Pass `contentKey` when it is already known to skip re-hashing.
+ */
+export const cacheKeyFor = async (
+  source: ResearchSource,
+  contentKey?: string | null
+): Promise<string | null> => {
+  const key = contentKey === undefined ? await contentKeyFor(source) : contentKey;
+  if (!key) return null;
+  const captions = source.metadata?.captionOptions;
+  const captionKey = captions
+    ? `|captions:${captions.language || ''}:${captions.isGenerated ? 'auto' : ''}:${captions.translateTo || ''}`
+    : '';
+  // Descriptions cached before there were modes keep their plain key
+  const imageMode = source.type === SourceType.IMAGE ? source.metadata?.imageMode : undefined;
+  const imageKey = imageMode && imageMode !== 'general' ? `|image:${imageMode}` : '';
+  const instructions = takesExtractionOptions(source) ? source.metadata?.extractionInstructions?.trim() : undefined;
+  const promptKey = instructions ? `|prompt:${instructions}` : '';
+  return `${extractionModelFor(source)}|${key}${captionKey}${imageKey}${promptKey}`;
+};
+
+/**
+ * Look up a cached extraction. Cache failures never block extraction,
+ * so errors are logged and treated as a miss.
+ */
+export const getCachedExtraction = async (key: string): Promise<CachedExtraction | null> => {
+  try {
+    const entry = await withStore<CachedExtraction | undefined>(
+      EXTRACTIONS_STORE, 'readonly', store => store.get(key)
+    );
+    return entry || null;
+  } catch (e) {
+    console.warn('Extraction cache read failed:', e);
+    return null;
+  }
+};
+
+/**
+ * Store (or overwrite) an extraction in the cache
+ */
+export const putCachedExtraction = async (entry: Omit<CachedExtraction, 'createdAt'>): Promise<void> => {
+  try {
+    await withStore(EXTRACTIONS_STORE, 'readwrite', store => store.put({ ...entry, createdAt: Date.now() }));
+  } catch (e) {
+    console.warn('Extraction cache write failed:', e);
+  }
+};
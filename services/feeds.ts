@@ -0,0 +1,79 @@
+export interface FeedItem {
+  title: string;
+  url: string;
+  publishedAt?: string; // YYYY-MM-DD
+  author?: string;
+  summary?: string;
+  // Podcast episodes only
+  audio?: { url: string; type?: string; size?: number };
+  duration?: number; // seconds
+  showNotes?: string;
+}
+
+export interface Feed {
+  // The URL that was pasted
+  url: string;
+  title: string;
+  // Items carry audio enclosures
+  isPodcast: boolean;
+  items: FeedItem[];
+  // The feed has more items than the server returned
+  truncated: boolean;
+}
+
+// Paths and file names feeds are usually published under
+const FEED_PATH = /(\.(rss|atom)|[/.](feed|rss|atom)(\.xml)?|\/index\.xml)\/?$/i;
+
+/**
+ * Whether a URL looks like an RSS or Atom feed rather than a web page
+ */
+export const isFeedUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    if (FEED_PATH.test(parsed.pathname) || /^feeds\./i.test(parsed.hostname)) return true;
+    const format = parsed.searchParams.get('feed') || parsed.searchParams.get('format');
+    return !!format && /^(rss2?|atom)$/i.test(format);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * List the recent items of a feed via the server
+ */
+export const fetchFeed = async (url: string): Promise<Feed> => {
+  const response = await fetch('/api/feed', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url })
+  });
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Could not read the feed (server returned ${response.status})`);
+  }
+  if (!data.success) {
+    throw new Error(data.error || 'Could not read the feed');
+  }
+
+  return {
+    url,
+    title: data.title,
+    isPodcast: !!data.is_podcast,
+    items: data.items.map((item: any) => ({
+      title: item.title,
+      url: item.url,
+      publishedAt: item.published_at || undefined,
+      author: item.author || undefined,
+      summary: item.summary || undefined,
+      audio: item.audio
+        ? { url: item.audio.url, type: item.audio.type || undefined, size: item.audio.size || undefined }
+        : undefined,
+      duration: item.duration || undefined,
+      showNotes: item.show_notes || undefined
+    })),
+    truncated: !!data.truncated
+  };
+};
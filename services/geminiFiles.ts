@@ -0,0 +1,154 @@
+const FILES_API_URL_STORAGE_KEY = 'research_blender_files_api_url';
+const DEFAULT_FILES_API_URL = 'https://generativelanguage.googleapis.com';
+
+// Gemini caps inline requests at 20 MB, and base64 adds a third
+export const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+
+// Resumable upload chunks must be multiples of 256 KiB
+const CHUNK_SIZE = 8 * 1024 * 1024;
+
+// A failed chunk is retried from the offset the server confirms
+const MAX_CHUNK_ATTEMPTS = 3;
+
+const POLL_INTERVAL_MS = 2000;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface ProgressOptions {
+  signal?: AbortSignal;
+  // Human-readable status for the source card
+  onProgress?: (message: string) => void;
+}
+
+export interface UploadedFile {
+  name: string; // "files/abc123"
+  uri: string;
+  mimeType: string;
+}
+
+/**
+ * Base URL of the Files API. Can be pointed at a local fake
+ * (`node fake-files-api.cjs`) by setting research_blender_files_api_url.
+ */
+const filesApiUrl = (): string =>
+  (localStorage.getItem(FILES_API_URL_STORAGE_KEY) || DEFAULT_FILES_API_URL).replace(/\/$/, '');
+
+const errorFrom = async (response: Response, action: string): Promise<Error> => {
+  let detail = '';
+  try {
+    detail = (await response.json()).error?.message || '';
+  } catch {
+    // Not JSON; the status is all there is
+  }
+  return new Error(`${action} failed (${response.status})${detail ? `: ${detail}` : ''}`);
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+/**
+ * Bytes the server has stored for an upload session
+ */
+const queryUploadOffset = async (uploadUrl: string, signal?: AbortSignal): Promise<number> => {
+  const response = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: { 'X-Goog-Upload-Command': 'query' },
+    signal
+  });
+  if (!response.ok) throw await errorFrom(response, 'Upload status check');
+  return Number(response.headers.get('X-Goog-Upload-Size-Received')) || 0;
+};
+
+/**
+ * Upload a file with the resumable protocol: start a session, send it in
+ * chunks (resuming from the confirmed offset when a chunk fails), then
+ * finalize.
+ */
+const uploadResumable = async (blob: Blob, mimeType: string, apiKey: string, options: ProgressOptions): Promise<UploadedFile & { state: string }> => {
+  const start = await fetch(`${filesApiUrl()}/upload/v1beta/files?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(blob.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ file: { display_name: blob instanceof File ? blob.name : 'Research Blender upload' } }),
+    signal: options.signal
+  });
+  if (!start.ok) throw await errorFrom(start, 'Upload');
+  const uploadUrl = start.headers.get('X-Goog-Upload-URL');
+  if (!uploadUrl) throw new Error('Upload failed: no upload URL returned');
+
+  let offset = 0;
+  let attempts = 0;
+  for (;;) {
+    const end = Math.min(offset + CHUNK_SIZE, blob.size);
+    const isLast = end === blob.size;
+    options.onProgress?.(`Uploading ${Math.round((offset / blob.size) * 100)}%`);
+
+    try {
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: {
+          'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          'X-Goog-Upload-Offset': String(offset)
+        },
+        body: blob.slice(offset, end),
+        signal: options.signal
+      });
+      if (!response.ok) throw await errorFrom(response, 'Upload');
+
+      if (isLast) {
+        const { file } = await response.json();
+        return file;
+      }
+      offset = end;
+      attempts = 0;
+    } catch (e) {
+      if (options.signal?.aborted || ++attempts >= MAX_CHUNK_ATTEMPTS) throw e;
+      console.warn('Upload chunk failed, resuming:', e);
+      offset = await queryUploadOffset(uploadUrl, options.signal);
+    }
+  }
+};
+
+/**
+ * Upload media to the Gemini Files API and wait until it has been
+ * processed and can be used in a prompt
+ */
+export const uploadFile = async (blob: Blob, mimeType: string, apiKey: string, options: ProgressOptions = {}): Promise<UploadedFile> => {
+  let file = await uploadResumable(blob, mimeType, apiKey, options);
+
+  options.onProgress?.('Processing upload...');
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+  while (file.state === 'PROCESSING') {
+    if (Date.now() > deadline) throw new Error('The uploaded file took too long to process');
+    await wait(POLL_INTERVAL_MS, options.signal);
+    const response = await fetch(`${filesApiUrl()}/v1beta/${file.name}?key=${encodeURIComponent(apiKey)}`, {
+      signal: options.signal
+    });
+    if (!response.ok) throw await errorFrom(response, 'Upload status check');
+    file = await response.json();
+  }
+
+  if (file.state === 'FAILED') throw new Error('Gemini could not process the uploaded file');
+  return { name: file.name, uri: file.uri, mimeType: file.mimeType || mimeType };
+};
+
+/**
+ * Delete an uploaded file once it has been used. Uploads expire after
+ * 48 hours anyway, so failures are only logged.
+ */
+export const deleteFile = async (name: string, apiKey: string): Promise<void> => {
+  try {
+    await fetch(`${filesApiUrl()}/v1beta/${name}?key=${encodeURIComponent(apiKey)}`, { method: 'DELETE' });
+  } catch (e) {
+    console.warn('Could not delete uploaded file:', e);
+  }
+};
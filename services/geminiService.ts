@@ -1,4 +1,8 @@
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Part } from "@google/genai";
+import { BlendSettings, CaptionOptions, CaptionTrackList, ImageAnalysisMode, ResearchSource, TranscriptSegment } from "../types";
+import { fetchWebArticle } from "./webArticles";
+import * as GeminiFiles from "./geminiFiles";
+import { ProgressOptions } from "./geminiFiles";
 
 const API_KEY_STORAGE_KEY = 'research_blender_api_key';
 const USER_PROFILE_STORAGE_KEY = 'research_blender_user_profile';
@@ -67,6 +71,42 @@ export const hasUserProfile = (): boolean => {
   return !!profile && !!profile.name;
 };
 
+/**
+ * Models used to turn each kind of source into text.
+ * YouTube transcripts come from captions, web articles are extracted on
+ * the server (with `web` as the search-grounded fallback) and office files
+ * are parsed in the browser, not by a model.
+ */
+export const EXTRACTION_MODELS = {
+  image: 'gemini-3-pro-preview',
+  video: 'gemini-3-pro-preview',
+  audio: 'gemini-2.5-flash',
+  document: 'gemini-2.5-flash',
+  web: 'gemini-2.5-flash',
+  article: 'readability',
+  youtube: 'youtube-captions',
+  parser: 'local-parser'
+} as const;
+
+// Models a source can be re-processed with
+export const EXTRACTION_MODEL_CHOICES = [
+  'gemini-3-pro-preview',
+  'gemini-2.5-pro',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite'
+];
+
+// Per-source overrides chosen with "Re-process with..."
+export interface ExtractionOptions {
+  // Replaces the default model for the source type
+  model?: string;
+  // Added to the built-in prompt, e.g. "names are Dutch" or "focus on the figures"
+  instructions?: string;
+}
+
+const withInstructions = (prompt: string, instructions?: string): string =>
+  instructions?.trim() ? `${prompt}\n\nAdditional instructions from the user: ${instructions.trim()}` : prompt;
+
 const getAiClient = () => {
   const apiKey = getApiKey();
   if (!apiKey) {
@@ -89,10 +129,35 @@ const fileToBase64 = (file: Blob): Promise<string> => {
   });
 };
 
+/**
+ * Media for a prompt: inline base64 when small, otherwise a Files API upload
+ * (reading a large file into a string freezes the tab and exceeds the
+ * request limit). Call `release` once the request is done.
+ */
+const mediaPart = async (
+  blob: Blob,
+  mimeType: string,
+  options: ProgressOptions = {}
+): Promise<{ part: Part; release: () => Promise<void> }> => {
+  if (blob.size <= GeminiFiles.MAX_INLINE_BYTES) {
+    return { part: { inlineData: { mimeType, data: await fileToBase64(blob) } }, release: async () => {} };
+  }
+
+  const apiKey = getApiKey();
+  if (!apiKey) {
+    throw new Error("API Key is missing. Please add your Gemini API key in Settings.");
+  }
+  const file = await GeminiFiles.uploadFile(blob, mimeType, apiKey, options);
+  return {
+    part: { fileData: { fileUri: file.uri, mimeType: file.mimeType } },
+    release: () => GeminiFiles.deleteFile(file.name, apiKey)
+  };
+};
+
 /**
  * Checks if URL is a YouTube video
  */
-const isYoutubeUrl = (url: string): boolean => {
+export const isYoutubeUrl = (url: string): boolean => {
   return /(?:youtube\.com|youtu\.be)/.test(url);
 };
 
@@ -130,10 +195,19 @@ const checkExtensionAvailable = async (): Promise<boolean> => {
   }
 };
 
+interface TranscriptResult {
+  transcript: string;
+  videoId: string;
+  segments: TranscriptSegment[];
+  language?: string;
+  isGenerated?: boolean;
+  translatedFrom?: string;
+}
+
 /**
  * Fetch transcript via browser extension (uses user's residential IP)
  */
-const fetchTranscriptViaExtension = async (videoId: string): Promise<{ transcript: string; videoId: string } | null> => {
+const fetchTranscriptViaExtension = async (videoId: string, captions: CaptionOptions = {}): Promise<TranscriptResult | null> => {
   if (!EXTENSION_ID) {
     console.log('Extension ID not configured');
     return null;
@@ -148,7 +222,7 @@ const fetchTranscriptViaExtension = async (videoId: string): Promise<{ transcrip
       
       chrome.runtime.sendMessage(
         EXTENSION_ID,
-        { action: 'getTranscript', videoId },
+        { action: 'getTranscript', videoId, ...captions },
         (response) => {
           clearTimeout(timeout);
           
@@ -162,7 +236,11 @@ const fetchTranscriptViaExtension = async (videoId: string): Promise<{ transcrip
             console.log('Extension fetched transcript:', response.transcript.length, 'chars');
             resolve({
               transcript: response.transcript,
-              videoId: response.videoId
+              videoId: response.videoId,
+              segments: response.segments || [],
+              language: response.language,
+              isGenerated: response.isGenerated,
+              translatedFrom: response.translatedFrom
             });
           } else {
             console.warn('Extension failed:', response?.error);
@@ -180,7 +258,7 @@ const fetchTranscriptViaExtension = async (videoId: string): Promise<{ transcrip
 /**
  * Fetches YouTube transcript - tries extension first, then server fallback
  */
-const fetchYoutubeTranscript = async (url: string): Promise<{ transcript: string; videoId: string } | null> => {
+const fetchYoutubeTranscript = async (url: string, captions: CaptionOptions = {}): Promise<TranscriptResult | null> => {
   const videoId = extractVideoId(url);
   if (!videoId) {
     console.error('Could not extract video ID from URL:', url);
@@ -193,7 +271,7 @@ const fetchYoutubeTranscript = async (url: string): Promise<{ transcript: string
   const extensionAvailable = await checkExtensionAvailable();
   if (extensionAvailable) {
     console.log('Trying browser extension...');
-    const extensionResult = await fetchTranscriptViaExtension(videoId);
+    const extensionResult = await fetchTranscriptViaExtension(videoId, captions);
     if (extensionResult) {
       console.log('Extension succeeded!');
       return extensionResult;
@@ -208,7 +286,12 @@ const fetchYoutubeTranscript = async (url: string): Promise<{ transcript: string
     const response = await fetch('/api/youtube/transcript', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ url })
+      body: JSON.stringify({
+        url,
+        language: captions.language,
+        is_generated: captions.isGenerated,
+        translate_to: captions.translateTo
+      })
     });
 
     const data = await response.json();
@@ -217,7 +300,11 @@ const fetchYoutubeTranscript = async (url: string): Promise<{ transcript: string
       console.log('Server fetch successful:', data.transcript.length, 'chars');
       return {
         transcript: data.transcript,
-        videoId: data.video_id
+        videoId: data.video_id,
+        segments: data.segments || [],
+        language: data.language,
+        isGenerated: data.is_generated,
+        translatedFrom: data.translated_from
       };
     }
     
@@ -229,38 +316,123 @@ const fetchYoutubeTranscript = async (url: string): Promise<{ transcript: string
   }
 };
 
+interface VideoInfo {
+  title?: string;
+  channel?: string;
+  channelId?: string;
+  publishedAt?: string;
+  duration?: number;
+  viewCount?: number;
+  description?: string;
+}
+
 /**
- * Parse XML transcript into plain text
+ * Fetch title, channel, publish date and stats for a video. Returns null on
+ * failure, since the transcript is usable without them.
  */
-function parseTranscriptXml(xml: string): string | null {
-  const segments: string[] = [];
-  const regex = /<text[^>]*>([\s\S]*?)<\/text>/g;
-  let match;
-  
-  while ((match = regex.exec(xml)) !== null) {
-    let text = match[1]
-      .replace(/<[^>]*>/g, '') // Remove nested tags
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/&nbsp;/g, ' ')
-      .replace(/\n/g, ' ')
-      .trim();
-    
-    if (text) {
-      segments.push(text);
+const fetchYoutubeInfo = async (url: string): Promise<VideoInfo | null> => {
+  try {
+    const response = await fetch('/api/youtube/info', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url })
+    });
+
+    const data = await response.json();
+    if (!data.success) {
+      console.warn('Video info fetch failed:', data.error);
+      return null;
     }
+
+    return {
+      title: data.title || undefined,
+      channel: data.channel || undefined,
+      channelId: data.channel_id || undefined,
+      publishedAt: data.published_at || undefined,
+      duration: data.duration || undefined,
+      viewCount: data.view_count ?? undefined,
+      description: data.description || undefined
+    };
+  } catch (e) {
+    console.warn('Video info fetch error:', e);
+    return null;
   }
-  
-  return segments.length > 0 ? segments.join(' ') : null;
+};
+
+// Response of the captions function, in the server's snake_case
+interface CaptionTracksResponse {
+  success: boolean;
+  error?: string;
+  tracks: { language_code: string; name: string; is_generated: boolean; is_translatable: boolean }[];
+  translation_languages: { language_code: string; name: string }[];
 }
 
+/**
+ * List the caption tracks of a video - tries extension first, then server fallback
+ */
+export const listCaptionTracks = async (url: string): Promise<CaptionTrackList> => {
+  const videoId = extractVideoId(url);
+  if (!videoId) {
+    throw new Error('Could not extract video ID from URL');
+  }
+
+  if (await checkExtensionAvailable()) {
+    const fromExtension = await new Promise<CaptionTrackList | null>((resolve) => {
+      const timeout = setTimeout(() => resolve(null), 30000);
+      chrome.runtime.sendMessage(EXTENSION_ID, { action: 'listCaptionTracks', videoId }, (response) => {
+        clearTimeout(timeout);
+        if (chrome.runtime.lastError || !response?.success) {
+          console.warn('Extension could not list captions:', chrome.runtime.lastError?.message || response?.error);
+          resolve(null);
+          return;
+        }
+        resolve({ tracks: response.tracks, translationLanguages: response.translationLanguages });
+      });
+    });
+    if (fromExtension) return fromExtension;
+  }
+
+  const response = await fetch('/api/youtube/captions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url })
+  });
+
+  let data: CaptionTracksResponse;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Could not list captions (server returned ${response.status})`);
+  }
+  if (!data.success) {
+    throw new Error(data.error || 'Could not list captions');
+  }
+
+  return {
+    tracks: data.tracks.map(track => ({
+      languageCode: track.language_code,
+      name: track.name,
+      isGenerated: track.is_generated,
+      isTranslatable: track.is_translatable
+    })),
+    translationLanguages: data.translation_languages.map(lang => ({
+      languageCode: lang.language_code,
+      name: lang.name
+    }))
+  };
+};
+
+/**
+ * Drop missing details so they don't overwrite what a source already knows
+ * (e.g. a playlist's durations) when merged into its metadata
+ */
+const withoutEmptyValues = (metadata: NonNullable<ResearchSource['metadata']>): ResearchSource['metadata'] =>
+  Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+
 /**
  * Extract video ID from YouTube URL
  */
-const extractVideoId = (url: string): string | null => {
+export const extractVideoId = (url: string): string | null => {
   const patterns = [
     /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^#&?]{11})/,
     /(?:youtube\.com\/shorts\/)([^#&?]{11})/,
@@ -279,16 +451,30 @@ const extractVideoId = (url: string): string | null => {
   return null;
 };
 
+export const IMAGE_MODE_LABELS: Record<ImageAnalysisMode, string> = {
+  general: 'Description',
+  ocr: 'Text (OCR)',
+  chart: 'Chart & table data',
+  diagram: 'Diagram'
+};
+
+const IMAGE_PROMPTS: Record<ImageAnalysisMode, string> = {
+  general: "Analyze this image in detail. Describe the visual elements, context, text visible, and overall meaning. This description will be used as a source for a research article.",
+  ocr: "Transcribe all text in this image verbatim, in reading order. Keep headings, paragraphs, lists and line breaks, formatted as Markdown. Do not summarize, translate or correct anything; mark unreadable words as [illegible]. Output only the transcription.",
+  chart: "Extract the data shown in the charts and tables in this image as Markdown tables, one per chart or table, with column headers and units. Read values as precisely as the image allows and prefix values estimated from a chart's axes with ~. Above each table, give its title; below it, one line naming the axes, legend and source if shown. Output nothing else.",
+  diagram: "Explain this diagram for use as a research source. Say what kind of diagram it is, list its components with their labels, then walk through the relationships, flows or steps it shows in order. End with a short paragraph on what the diagram as a whole conveys."
+};
+
 /**
  * Normalization: Image Understanding
- * Uses gemini-3-pro-preview
+ * Uses gemini-3-pro-preview, with a prompt for the chosen analysis mode
  */
-export const analyzeImage = async (file: File): Promise<string> => {
+export const analyzeImage = async (file: File, mode: ImageAnalysisMode = 'general', extraction: ExtractionOptions = {}): Promise<string> => {
   const ai = getAiClient();
   const base64Data = await fileToBase64(file);
 
   const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+    model: extraction.model || EXTRACTION_MODELS.image,
     contents: {
       parts: [
         {
@@ -298,7 +484,7 @@ export const analyzeImage = async (file: File): Promise<string> => {
           }
         },
         {
-          text: "Analyze this image in detail. Describe the visual elements, context, text visible, and overall meaning. This description will be used as a source for a research article."
+          text: withInstructions(IMAGE_PROMPTS[mode], extraction.instructions)
         }
       ]
     }
@@ -311,32 +497,28 @@ export const analyzeImage = async (file: File): Promise<string> => {
  * Normalization: Video Understanding (File Upload)
  * Uses gemini-3-pro-preview
  */
-export const analyzeVideo = async (file: File): Promise<string> => {
+export const analyzeVideo = async (file: File, options: ProgressOptions & ExtractionOptions = {}): Promise<string> => {
   const ai = getAiClient();
-  const base64Data = await fileToBase64(file);
+  const media = await mediaPart(file, file.type || 'video/mp4', options);
+  options.onProgress?.('Analyzing video...');
 
   const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-preview',
+    model: options.model || EXTRACTION_MODELS.video,
     contents: {
       parts: [
+        media.part,
         {
-          inlineData: {
-            mimeType: file.type || 'video/mp4',
-            data: base64Data
-          }
-        },
-        {
-          text: `You are an expert video analyst. Your task is to extract all information from this video file.
+          text: withInstructions(`You are an expert video analyst. Your task is to extract all information from this video file.
           
           1. AUDIO TRANSCRIPTION: Listen carefully to the audio and provide a detailed, near-verbatim transcript of what is said. Distinguish between speakers if possible.
           2. VISUAL DESCRIPTION: Describe key visual elements, text on screen, and actions that accompany the audio.
           3. SUMMARY: Provide a concise summary of the core message.
           
-          Return this as a structured document for research synthesis.`
+          Return this as a structured document for research synthesis.`, options.instructions)
         }
       ]
     }
-  });
+  }).finally(media.release);
 
   return response.text || "No summary generated.";
 };
@@ -345,57 +527,127 @@ export const analyzeVideo = async (file: File): Promise<string> => {
  * Normalization: Audio Transcription
  * Uses gemini-2.5-flash
  */
-export const transcribeAudio = async (blob: Blob): Promise<string> => {
+export const transcribeAudio = async (
+  blob: Blob,
+  // `count` is left out while a live recording is still going
+  options: ProgressOptions & ExtractionOptions & { part?: { index: number; count?: number } } = {}
+): Promise<string> => {
   const ai = getAiClient();
-  const base64Data = await fileToBase64(blob);
+  const { part } = options;
+  const media = await mediaPart(blob, blob.type || 'audio/webm', options);
+  // Parts of a longer recording are stitched together, so only the whole gets summarized
+  const instruction = part && part.count !== 1
+    ? `This is part ${part.index}${part.count ? ` of ${part.count}` : ''} of a longer recording and may start or end mid-sentence. Transcribe it accurately, including speaker differentiation if possible. Do not add a summary.`
+    : "Transcribe this audio recording accurately. Include speaker differentiation if possible and summarize the key points at the end.";
 
   const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+    model: options.model || EXTRACTION_MODELS.audio,
     contents: {
       parts: [
+        media.part,
         {
-          inlineData: {
-            mimeType: blob.type || 'audio/webm',
-            data: base64Data
-          }
-        },
-        {
-          text: "Transcribe this audio recording accurately. Include speaker differentiation if possible and summarize the key points at the end."
+          text: withInstructions(instruction, options.instructions)
         }
       ]
     }
-  });
+  }).finally(media.release);
 
   return response.text || "No transcription generated.";
 };
 
 /**
- * Normalization: URL Processing
- * YouTube: Uses Python backend with youtube-transcript-api for reliable transcript fetching
- * General Web: Uses Google Search Grounding
+ * Normalization: Document Understanding (scanned PDF pages without a text layer)
+ * Uses gemini-2.5-flash
+ * Each page's text is preceded by a "[[PAGE n]]" marker line. With `pageNumbers`
+ * only those pages are transcribed.
  */
-export const processUrl = async (url: string): Promise<{ text: string; thumbnail?: string }> => {
+export const analyzeDocument = async (
+  file: File,
+  extraction: ProgressOptions & ExtractionOptions = {},
+  pageNumbers?: number[]
+): Promise<string> => {
   const ai = getAiClient();
+  const media = await mediaPart(file, file.type || 'application/pdf', extraction);
+  const scope = pageNumbers?.length
+    ? `Transcribe only page${pageNumbers.length > 1 ? 's' : ''} ${pageNumbers.join(', ')} of this document; skip every other page.`
+    : 'Transcribe the full text of this document, page by page.';
 
+  const response = await ai.models.generateContent({
+    model: extraction.model || EXTRACTION_MODELS.document,
+    contents: {
+      parts: [
+        media.part,
+        {
+          text: withInstructions(`${scope} Be as faithful to the page as possible.
+          Start each page with a line containing only "[[PAGE n]]" where n is the page number.
+          Preserve headings, lists and tables (as Markdown). Describe figures briefly in square brackets.
+          Do not summarize or add commentary.`, extraction.instructions)
+        }
+      ]
+    }
+  }).finally(media.release);
+
+  return response.text || "No text extracted.";
+};
+
+/**
+ * Normalization: URL Processing
+ * YouTube: Uses Python backend with youtube-transcript-api for reliable transcript fetching
+ * General Web: Fetches the page and extracts the article; Google Search Grounding if that fails
+ */
+export const processUrl = async (
+  url: string,
+  captions?: CaptionOptions
+): Promise<{ text: string; thumbnail?: string; title?: string; segments?: TranscriptSegment[]; metadata?: ResearchSource['metadata'] }> => {
   // --- YouTube Logic (via Python backend) ---
   if (isYoutubeUrl(url)) {
-    const transcriptData = await fetchYoutubeTranscript(url);
+    const [transcriptData, info] = await Promise.all([
+      fetchYoutubeTranscript(url, captions),
+      fetchYoutubeInfo(url)
+    ]);
     
     if (!transcriptData || !transcriptData.transcript) {
-      throw new Error('Could not fetch transcript for this video. It may not have captions enabled.');
+      throw new Error(captions?.language || captions?.translateTo
+        ? 'Could not fetch the chosen captions for this video. Try another language.'
+        : 'Could not fetch transcript for this video. It may not have captions enabled.');
     }
     
     const thumbnail = `https://img.youtube.com/vi/${transcriptData.videoId}/maxresdefault.jpg`;
     
     // Return raw transcript without summarization - will be processed during blend
+    const { title, ...details } = info || {};
+
     return {
       text: transcriptData.transcript,
-      thumbnail
+      thumbnail,
+      title,
+      segments: transcriptData.segments.length > 0 ? transcriptData.segments : undefined,
+      metadata: withoutEmptyValues({
+        ...details,
+        captionLanguage: transcriptData.language,
+        captionGenerated: transcriptData.isGenerated,
+        captionTranslatedFrom: transcriptData.translatedFrom
+      })
     };
   } 
   
-  // --- General Web Logic (Google Search Grounding) ---
+  // --- General Web Logic (page fetch, Google Search Grounding as a fallback) ---
   else {
+    const article = await fetchWebArticle(url);
+    if (article) {
+      return {
+        text: article.markdown,
+        title: article.title,
+        metadata: withoutEmptyValues({
+          author: article.author,
+          publishedAt: article.publishedAt,
+          siteName: article.siteName,
+          extractionMethod: 'readability'
+        })
+      };
+    }
+
+    const ai = getAiClient();
     const prompt = `
       Research the following URL: ${url}. 
       Extract the main article text or content. 
@@ -403,7 +655,7 @@ export const processUrl = async (url: string): Promise<{ text: string; thumbnail
     `;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: EXTRACTION_MODELS.web,
       contents: prompt,
       config: {
         tools: [{ googleSearch: {} }]
@@ -423,15 +675,46 @@ export const processUrl = async (url: string): Promise<{ text: string; thumbnail
       }
     }
 
-    return { text: content };
+    return { text: content, metadata: { extractionMethod: 'search-grounding' } };
   }
 };
 
+/**
+ * Context line for a source in the blend prompt (who published it and when),
+ * so the writer can attribute what was said. Empty when nothing is known.
+ */
+export const describeSource = (source: ResearchSource): string => {
+  const { channel, podcast, author, siteName, publishedAt, viewCount, description, showNotes, imageMode, humanEdited } = source.metadata || {};
+  const details = [
+    humanEdited && 'Text corrected by hand after extraction',
+    imageMode && imageMode !== 'general' && `Image analysis: ${IMAGE_MODE_LABELS[imageMode]}`,
+    channel && `Channel: ${channel}`,
+    podcast && `Podcast: ${podcast}`,
+    author && `Author: ${author}`,
+    siteName && `Site: ${siteName}`,
+    publishedAt && `Published: ${publishedAt}`,
+    viewCount !== undefined && `Views: ${viewCount.toLocaleString('en-US')}`
+  ].filter(Boolean);
+  const notes = description || showNotes;
+  if (details.length === 0 && !notes) return '';
+
+  // Descriptions and show notes are often long lists of links; the opening is what describes the content
+  const summary = notes && notes.length > 500 ? `${notes.slice(0, 500)}...` : notes;
+  return [details.join(' | '), summary && `${showNotes && !description ? 'Show notes' : 'Description'}: ${summary}`].filter(Boolean).join('\n');
+};
+
+export const DEFAULT_BLEND_SETTINGS: BlendSettings = {
+  model: 'gemini-2.5-flash'
+};
+
 /**
  * Synthesis: The Writer
- * Uses gemini-2.5-flash
+ * Uses gemini-2.5-flash by default
  */
-export const synthesizeNarrative = async (sourcesText: string): Promise<string> => {
+export const synthesizeNarrative = async (
+  sourcesText: string,
+  settings: BlendSettings = DEFAULT_BLEND_SETTINGS
+): Promise<string> => {
   const ai = getAiClient();
 
   const prompt = `
@@ -445,13 +728,14 @@ export const synthesizeNarrative = async (sourcesText: string): Promise<string>
     3. Use headers and subheaders to structure the narrative.
     4. Do not just list the sources (e.g., "Source A says..."). Weave the information together.
     5. Be comprehensive but concise.
+    6. Sources may keep their original structure as Markdown headings, "Slide N" and "Chapter N" markers, or page breaks. Use that structure to understand how each source is organised and what belongs together.
 
     RAW SOURCES:
     ${sourcesText}
   `;
 
   const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash',
+    model: settings.model,
     contents: prompt
   });
 
@@ -0,0 +1,15 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('prefixes every line of a blockquote', () => {
+    const html = '<p>Before</p><blockquote><p>First line</p><p>Second <em>line</em></p></blockquote><p>After</p>';
+    expect(htmlToMarkdown(html)).toBe('Before\n\n> First line\n>\n> Second *line*\n\nAfter');
+  });
+
+  it('nests quotes inside quotes', () => {
+    const html = '<blockquote><p>Outer</p><blockquote>Inner</blockquote></blockquote>';
+    expect(htmlToMarkdown(html)).toBe('> Outer\n>\n> > Inner');
+  });
+});
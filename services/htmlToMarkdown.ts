@@ -0,0 +1,192 @@
+// Elements whose content is never part of the readable text
+const SKIPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas',
+  'nav', 'button', 'form', 'input', 'select', 'textarea', 'head', 'title', 'meta', 'link'
+]);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside',
+  'figure', 'figcaption', 'dl', 'dt', 'dd', 'address', 'body', 'html'
+]);
+
+export interface HtmlToMarkdownOptions {
+  // Keep link targets as [text](href); otherwise only the link text is kept
+  keepLinks?: boolean;
+  // Base URL to resolve relative links against
+  baseUrl?: string;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+const resolveHref = (href: string, baseUrl?: string): string => {
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+};
+
+/**
+ * Convert a DOM node to Markdown. Headings, lists, quotes, code, tables and
+ * (optionally) links are kept; scripts, styles, navigation and form
+ * controls are dropped.
+ */
+export const nodeToMarkdown = (root: Node, options: HtmlToMarkdownOptions = {}): string => {
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return collapse(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const el = node as Element;
+    const tag = el.localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || el.getAttribute('aria-hidden') === 'true') return '';
+
+    const children = () => Array.from(el.childNodes).map(inline).join('');
+    switch (tag) {
+      case 'br': return '\n';
+      case 'strong':
+      case 'b': {
+        const text = children().trim();
+        return text ? `**${text}**` : '';
+      }
+      case 'em':
+      case 'i': {
+        const text = children().trim();
+        return text ? `*${text}*` : '';
+      }
+      case 'code': return `\`${el.textContent || ''}\``;
+      case 'img': {
+        const alt = el.getAttribute('alt');
+        return alt ? `[Image: ${alt}]` : '';
+      }
+      case 'a': {
+        const text = children().trim();
+        const href = el.getAttribute('href');
+        if (!options.keepLinks || !href || href.startsWith('#') || href.startsWith('javascript:')) return text;
+        return text ? `[${text}](${resolveHref(href, options.baseUrl)})` : '';
+      }
+      default: return children();
+    }
+  };
+
+  let blocks: string[] = [];
+  const pushBlock = (text: string) => {
+    const trimmed = text.replace(/[ \t]+\n/g, '\n').trim();
+    if (trimmed) blocks.push(trimmed);
+  };
+
+  const listItems = (list: Element, depth: number) => {
+    const ordered = list.localName.toLowerCase() === 'ol';
+    let index = 1;
+    for (const child of Array.from(list.children)) {
+      if (child.localName.toLowerCase() !== 'li') continue;
+      const nested: Element[] = [];
+      const text = Array.from(child.childNodes)
+        .filter(n => {
+          const isList = n.nodeType === Node.ELEMENT_NODE && ['ul', 'ol'].includes((n as Element).localName.toLowerCase());
+          if (isList) nested.push(n as Element);
+          return !isList;
+        })
+        .map(inline)
+        .join('')
+        .trim();
+      const marker = ordered ? `${index++}.` : '-';
+      if (text) blocks.push(`${'  '.repeat(depth)}${marker} ${text}`);
+      nested.forEach(n => listItems(n, depth + 1));
+    }
+  };
+
+  const table = (el: Element) => {
+    const rows = Array.from(el.querySelectorAll('tr')).map(row =>
+      Array.from(row.children)
+        .filter(cell => ['td', 'th'].includes(cell.localName.toLowerCase()))
+        .map(cell => inline(cell).trim().replace(/\|/g, '\\|'))
+    ).filter(cells => cells.length > 0);
+    if (rows.length === 0) return;
+    const width = Math.max(...rows.map(r => r.length));
+    const format = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+    pushBlock([
+      format(rows[0]),
+      `|${' --- |'.repeat(width)}`,
+      ...rows.slice(1).map(format)
+    ].join('\n'));
+  };
+
+  const block = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pushBlock(collapse(node.textContent || ''));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE && node.nodeType !== Node.DOCUMENT_NODE) return;
+    if (node.nodeType === Node.DOCUMENT_NODE) {
+      const doc = node as Document;
+      if (doc.body) block(doc.body);
+      else if (doc.documentElement) block(doc.documentElement);
+      return;
+    }
+
+    const el = node as Element;
+    const tag = el.localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag) || el.getAttribute('aria-hidden') === 'true') return;
+
+    const heading = tag.match(/^h([1-6])$/);
+    if (heading) {
+      pushBlock(`${'#'.repeat(Number(heading[1]))} ${inline(el).trim()}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      listItems(el, 0);
+    } else if (tag === 'blockquote') {
+      quote(el);
+    } else if (tag === 'pre') {
+      pushBlock(`\`\`\`\n${el.textContent || ''}\n\`\`\``);
+    } else if (tag === 'table') {
+      table(el);
+    } else if (tag === 'hr') {
+      pushBlock('---');
+    } else if (BLOCK_TAGS.has(tag) || Array.from(el.children).some(c => isBlockElement(c))) {
+      container(el);
+    } else {
+      pushBlock(inline(el));
+    }
+  };
+
+  // Flush runs of inline content between child blocks
+  const container = (el: Element) => {
+    let run = '';
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === Node.ELEMENT_NODE && isBlockElement(child as Element)) {
+        pushBlock(run);
+        run = '';
+        block(child);
+      } else {
+        run += inline(child);
+      }
+    }
+    pushBlock(run);
+  };
+
+  // The quote's children are rendered into their own blocks, then every line is prefixed
+  const quote = (el: Element) => {
+    const outer = blocks;
+    blocks = [];
+    container(el);
+    const quoted = blocks.join('\n\n');
+    blocks = outer;
+    pushBlock(quoted.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n'));
+  };
+
+  block(root);
+  return blocks.join('\n\n');
+};
+
+const isBlockElement = (el: Element): boolean => {
+  const tag = el.localName.toLowerCase();
+  return BLOCK_TAGS.has(tag) || /^h[1-6]$/.test(tag) ||
+    ['ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'hr'].includes(tag);
+};
+
+/**
+ * Convert an HTML string to Markdown
+ */
+export const htmlToMarkdown = (html: string, options: HtmlToMarkdownOptions = {}): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return nodeToMarkdown(doc, options);
+};
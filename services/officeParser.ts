@@ -0,0 +1,297 @@
+import { unzip, strFromU8 } from 'fflate';
+import { ResearchSource } from '../types';
+import { nodeToMarkdown } from './htmlToMarkdown';
+
+export type OfficeFormat = 'docx' | 'pptx' | 'epub';
+
+export interface ParsedOfficeFile {
+  text: string;
+  metadata: ResearchSource['metadata'];
+}
+
+const MIME_TYPES: Record<OfficeFormat, string> = {
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  epub: 'application/epub+zip'
+};
+
+/**
+ * Which office/e-book format a file is, by MIME type or extension
+ */
+export const detectOfficeFormat = (file: File): OfficeFormat | null => {
+  for (const format of Object.keys(MIME_TYPES) as OfficeFormat[]) {
+    if (file.type === MIME_TYPES[format] || file.name.toLowerCase().endsWith(`.${format}`)) {
+      return format;
+    }
+  }
+  return null;
+};
+
+export const OFFICE_ACCEPT = Object.entries(MIME_TYPES)
+  .flatMap(([ext, mime]) => [`.${ext}`, mime])
+  .join(',');
+
+const readZip = async (file: Blob): Promise<Record<string, Uint8Array>> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  return new Promise((resolve, reject) => {
+    unzip(data, (err, files) => (err ? reject(new Error('File is not a valid archive.')) : resolve(files)));
+  });
+};
+
+const parseXml = (files: Record<string, Uint8Array>, path: string): Document | null => {
+  const bytes = files[path];
+  if (!bytes) return null;
+  const doc = new DOMParser().parseFromString(strFromU8(bytes), 'application/xml');
+  return doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+};
+
+// Namespace-agnostic element lookup (OOXML uses w:, a:, p: prefixes)
+const descendants = (root: Element | Document, localName: string): Element[] => {
+  return Array.from(root.getElementsByTagNameNS('*', localName));
+};
+
+const firstChild = (el: Element, localName: string): Element | undefined => {
+  return Array.from(el.children).find(c => c.localName === localName);
+};
+
+const attr = (el: Element | undefined, localName: string): string | null => {
+  if (!el) return null;
+  for (const a of Array.from(el.attributes)) {
+    if (a.localName === localName) return a.value;
+  }
+  return null;
+};
+
+// The r:id attribute (as opposed to the plain numeric id) of an element
+const relationshipId = (el: Element): string | null => {
+  const rel = Array.from(el.attributes).find(a => a.localName === 'id' && a.namespaceURI?.includes('relationships'));
+  return rel ? rel.value : null;
+};
+
+/**
+ * Resolve a relationship target relative to the part that references it
+ */
+const resolvePart = (fromPart: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = fromPart.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+// Map of relationship ID -> target part for an OOXML part
+const readRelationships = (files: Record<string, Uint8Array>, part: string): Map<string, string> => {
+  const slash = part.lastIndexOf('/');
+  const relsPath = `${part.slice(0, slash)}/_rels/${part.slice(slash + 1)}.rels`;
+  const rels = new Map<string, string>();
+  const doc = parseXml(files, relsPath);
+  if (!doc) return rels;
+  for (const rel of descendants(doc, 'Relationship')) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (id && target && rel.getAttribute('TargetMode') !== 'External') {
+      rels.set(id, resolvePart(part, target));
+    }
+  }
+  return rels;
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// --- DOCX ---
+
+const docxRunText = (paragraph: Element): string => {
+  let text = '';
+  for (const run of descendants(paragraph, 'r')) {
+    for (const node of Array.from(run.children)) {
+      if (node.localName === 't') text += node.textContent || '';
+      else if (node.localName === 'tab') text += '\t';
+      else if (node.localName === 'br' || node.localName === 'cr') text += '\n';
+    }
+  }
+  return text.trim();
+};
+
+const docxHeadingLevel = (paragraph: Element): number | null => {
+  const props = firstChild(paragraph, 'pPr');
+  const style = attr(props && firstChild(props, 'pStyle'), 'val') || '';
+  if (/^title$/i.test(style)) return 1;
+  const heading = style.match(/^heading\s?(\d)$/i);
+  if (heading) return Math.min(Number(heading[1]) + 1, 6);
+  const outline = attr(props && firstChild(props, 'outlineLvl'), 'val');
+  return outline !== null ? Math.min(Number(outline) + 2, 6) : null;
+};
+
+const docxParagraph = (paragraph: Element): string => {
+  const text = docxRunText(paragraph);
+  if (!text) return '';
+  const level = docxHeadingLevel(paragraph);
+  if (level) return `${'#'.repeat(level)} ${text}`;
+  const props = firstChild(paragraph, 'pPr');
+  const numbering = props && firstChild(props, 'numPr');
+  if (numbering) {
+    const depth = Number(attr(firstChild(numbering, 'ilvl'), 'val') || 0);
+    return `${'  '.repeat(depth)}- ${text}`;
+  }
+  return text;
+};
+
+const docxTable = (table: Element): string => {
+  const rows = Array.from(table.children)
+    .filter(row => row.localName === 'tr')
+    .map(row => Array.from(row.children)
+      .filter(cell => cell.localName === 'tc')
+      .map(cell => descendants(cell, 'p').map(docxRunText).filter(Boolean).join(' ').replace(/\|/g, '\\|')));
+  if (rows.length === 0) return '';
+  const width = Math.max(...rows.map(r => r.length));
+  const format = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [format(rows[0]), `|${' --- |'.repeat(width)}`, ...rows.slice(1).map(format)].join('\n');
+};
+
+const parseDocx = async (file: File): Promise<ParsedOfficeFile> => {
+  const files = await readZip(file);
+  const doc = parseXml(files, 'word/document.xml');
+  const body = doc && descendants(doc, 'body')[0];
+  if (!body) throw new Error('Could not find the document body.');
+
+  const blocks: string[] = [];
+  let headingCount = 0;
+  for (const child of Array.from(body.children)) {
+    if (child.localName === 'p') {
+      const block = docxParagraph(child);
+      if (block.startsWith('#')) headingCount++;
+      if (block) blocks.push(block);
+    } else if (child.localName === 'tbl') {
+      const block = docxTable(child);
+      if (block) blocks.push(block);
+    }
+  }
+
+  const text = blocks.join('\n\n');
+  return { text, metadata: { sectionCount: headingCount, wordCount: countWords(text) } };
+};
+
+// --- PPTX ---
+
+const pptxParagraphs = (shape: Element): string[] => {
+  return descendants(shape, 'p')
+    .map(p => descendants(p, 't').map(t => t.textContent || '').join('').trim())
+    .filter(Boolean);
+};
+
+const pptxSlide = (doc: Document): { title: string; body: string[] } => {
+  let title = '';
+  const body: string[] = [];
+  for (const shape of descendants(doc, 'sp')) {
+    const placeholder = descendants(shape, 'ph')[0];
+    const type = placeholder?.getAttribute('type');
+    const paragraphs = pptxParagraphs(shape);
+    if (!title && (type === 'title' || type === 'ctrTitle')) {
+      title = paragraphs.join(' ');
+    } else if (type !== 'sldNum' && type !== 'dt' && type !== 'ftr') {
+      body.push(...paragraphs);
+    }
+  }
+  // Text inside tables
+  for (const cell of descendants(doc, 'tc')) {
+    const text = pptxParagraphs(cell).join(' ');
+    if (text) body.push(text);
+  }
+  return { title, body };
+};
+
+const parsePptx = async (file: File): Promise<ParsedOfficeFile> => {
+  const files = await readZip(file);
+  const presentation = parseXml(files, 'ppt/presentation.xml');
+  if (!presentation) throw new Error('Could not find the presentation.');
+
+  // Slide order comes from the presentation's slide ID list
+  const rels = readRelationships(files, 'ppt/presentation.xml');
+  const slidePaths = descendants(presentation, 'sldId')
+    .map(sldId => rels.get(relationshipId(sldId) || ''))
+    .filter((path): path is string => !!path);
+
+  const blocks: string[] = [];
+  slidePaths.forEach((path, i) => {
+    const slide = parseXml(files, path);
+    if (!slide) return;
+    const { title, body } = pptxSlide(slide);
+    blocks.push(`## Slide ${i + 1}${title ? `: ${title}` : ''}`);
+    if (body.length > 0) blocks.push(body.map(line => `- ${line}`).join('\n'));
+
+    // Speaker notes are linked from the slide's relationships
+    const notesPath = Array.from(readRelationships(files, path).values()).find(p => p.includes('notesSlide'));
+    const notes = notesPath && parseXml(files, notesPath);
+    if (notes) {
+      const noteText = descendants(notes, 'sp')
+        .filter(shape => descendants(shape, 'ph')[0]?.getAttribute('type') === 'body')
+        .flatMap(pptxParagraphs)
+        .join(' ');
+      if (noteText) blocks.push(`Speaker notes: ${noteText}`);
+    }
+  });
+
+  const text = blocks.join('\n\n');
+  return { text, metadata: { slideCount: slidePaths.length, wordCount: countWords(text) } };
+};
+
+// --- EPUB ---
+
+const parseEpub = async (file: File): Promise<ParsedOfficeFile> => {
+  const files = await readZip(file);
+  const container = parseXml(files, 'META-INF/container.xml');
+  const opfPath = container && descendants(container, 'rootfile')[0]?.getAttribute('full-path');
+  const opf = opfPath ? parseXml(files, opfPath) : null;
+  if (!opfPath || !opf) throw new Error('Could not find the e-book package.');
+
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  for (const item of descendants(opf, 'item')) {
+    manifest.set(item.getAttribute('id') || '', {
+      href: resolvePart(opfPath, decodeURIComponent(item.getAttribute('href') || '')),
+      mediaType: item.getAttribute('media-type') || '',
+      properties: item.getAttribute('properties') || ''
+    });
+  }
+
+  const bookTitle = descendants(opf, 'title')[0]?.textContent?.trim();
+  const blocks: string[] = bookTitle ? [`# ${bookTitle}`] : [];
+  let chapter = 0;
+
+  for (const itemref of descendants(opf, 'itemref')) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const item = manifest.get(itemref.getAttribute('idref') || '');
+    if (!item || item.properties.includes('nav') || !/html/.test(item.mediaType)) continue;
+    const bytes = files[item.href];
+    if (!bytes) continue;
+
+    const doc = new DOMParser().parseFromString(strFromU8(bytes), 'application/xhtml+xml');
+    const root = doc.getElementsByTagName('parsererror').length > 0
+      ? new DOMParser().parseFromString(strFromU8(bytes), 'text/html')
+      : doc;
+    const markdown = nodeToMarkdown(root);
+    if (!markdown.trim()) continue;
+
+    chapter++;
+    const heading = root.querySelector('h1, h2, h3')?.textContent?.trim()
+      || root.querySelector('title')?.textContent?.trim();
+    blocks.push(`## Chapter ${chapter}${heading ? `: ${heading}` : ''}`);
+    blocks.push(markdown);
+  }
+
+  const text = blocks.join('\n\n');
+  return { text, metadata: { chapterCount: chapter, wordCount: countWords(text) } };
+};
+
+/**
+ * Parse a Word document, PowerPoint deck or EPUB book into Markdown that
+ * keeps headings, slide boundaries and chapter markers
+ */
+export const parseOfficeFile = (file: File, format: OfficeFormat): Promise<ParsedOfficeFile> => {
+  switch (format) {
+    case 'docx': return parseDocx(file);
+    case 'pptx': return parsePptx(file);
+    case 'epub': return parseEpub(file);
+  }
+};
@@ -0,0 +1,75 @@
+import * as GeminiService from './geminiService';
+import * as AudioFiles from './audioFiles';
+import { ProgressOptions } from './geminiFiles';
+import { ExtractionOptions } from './geminiService';
+
+/**
+ * Download an episode's audio through the server in ranges (enclosure hosts
+ * rarely allow cross-origin requests). The result carries a MIME type
+ * Gemini accepts.
+ */
+export const downloadEpisode = async (audioUrl: string, options: ProgressOptions = {}): Promise<Blob> => {
+  const parts: ArrayBuffer[] = [];
+  let received = 0;
+  let total: number | null = null;
+  let type = '';
+
+  while (total === null || received < total) {
+    const response = await fetch('/api/podcast/episode', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: audioUrl, start: received }),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      let message = `Could not download the episode (server returned ${response.status})`;
+      try {
+        message = (await response.json()).error || message;
+      } catch {
+        // Not JSON; keep the status message
+      }
+      throw new Error(message);
+    }
+
+    const chunk = await response.arrayBuffer();
+    total = Number(response.headers.get('X-Total-Size')) || total;
+    type = type || response.headers.get('Content-Type') || '';
+    // Without a known size, an empty range means the end of the file
+    if (chunk.byteLength === 0) break;
+
+    parts.push(chunk);
+    received += chunk.byteLength;
+    options.onProgress?.(total
+      ? `Downloading episode ${Math.min(100, Math.round((received / total) * 100))}%`
+      : `Downloading episode (${Math.round(received / (1024 * 1024))} MB)`);
+  }
+
+  const fileName = new URL(audioUrl).pathname.split('/').pop() || 'episode.mp3';
+  return AudioFiles.normalizeAudioFile(new File(parts, fileName, { type: type.startsWith('audio/') ? type : '' }));
+};
+
+/**
+ * Download and transcribe an episode. Episodes too large for one request
+ * are split and transcribed part by part, then stitched in order.
+ */
+export const transcribeEpisode = async (audioUrl: string, options: ProgressOptions & ExtractionOptions = {}): Promise<string> => {
+  const audio = await downloadEpisode(audioUrl, options);
+  options.signal?.throwIfAborted();
+
+  options.onProgress?.('Preparing audio...');
+  const parts = await AudioFiles.splitForTranscription(audio);
+
+  const transcripts: string[] = [];
+  for (const [i, part] of parts.entries()) {
+    options.signal?.throwIfAborted();
+    options.onProgress?.(parts.length > 1 ? `Transcribing part ${i + 1} of ${parts.length}` : 'Transcribing...');
+    transcripts.push(await GeminiService.transcribeAudio(part, {
+      part: { index: i + 1, count: parts.length },
+      signal: options.signal,
+      model: options.model,
+      instructions: options.instructions
+    }));
+  }
+  return transcripts.join('\n\n');
+};
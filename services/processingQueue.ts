@@ -0,0 +1,86 @@
+export type QueueTask = (signal: AbortSignal) => Promise<void>;
+
+export interface ProcessingQueue {
+  // Add a task; a task already queued or running under the same ID is cancelled first
+  enqueue: (id: string, task: QueueTask) => void;
+  // Drop a queued task or abort a running one. Returns false if the ID is unknown.
+  cancel: (id: string) => boolean;
+  cancelAll: () => void;
+  setConcurrency: (limit: number) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 3;
+export const MAX_CONCURRENCY = 8;
+
+const CONCURRENCY_KEY = 'research_blender_concurrency';
+
+export const getSavedConcurrency = (): number => {
+  const saved = Number(localStorage.getItem(CONCURRENCY_KEY));
+  return saved >= 1 && saved <= MAX_CONCURRENCY ? saved : DEFAULT_CONCURRENCY;
+};
+
+export const saveConcurrency = (limit: number) => {
+  localStorage.setItem(CONCURRENCY_KEY, String(limit));
+};
+
+/**
+ * A FIFO task queue that runs at most `concurrency` tasks at once, so a
+ * large batch doesn't hit the Gemini rate limits. Tasks get an AbortSignal
+ * that fires when they are cancelled; they should stop writing results
+ * once it has.
+ */
+export const createProcessingQueue = (concurrency: number = DEFAULT_CONCURRENCY): ProcessingQueue => {
+  let limit = concurrency;
+  const waiting: { id: string; task: QueueTask }[] = [];
+  const running = new Map<string, AbortController>();
+  // Cancelled tasks keep their slot until their request actually settles
+  let active = 0;
+
+  const pump = () => {
+    while (active < limit && waiting.length > 0) {
+      const { id, task } = waiting.shift()!;
+      const controller = new AbortController();
+      running.set(id, controller);
+      active++;
+      task(controller.signal)
+        .catch(e => console.error(`Queued task ${id} failed:`, e))
+        .finally(() => {
+          active--;
+          // A re-enqueued task may have replaced this one under the same ID
+          if (running.get(id) === controller) running.delete(id);
+          pump();
+        });
+    }
+  };
+
+  const cancel = (id: string): boolean => {
+    const index = waiting.findIndex(item => item.id === id);
+    if (index !== -1) {
+      waiting.splice(index, 1);
+      return true;
+    }
+    const controller = running.get(id);
+    if (!controller) return false;
+    controller.abort();
+    running.delete(id);
+    return true;
+  };
+
+  return {
+    enqueue: (id, task) => {
+      cancel(id);
+      waiting.push({ id, task });
+      pump();
+    },
+    cancel,
+    cancelAll: () => {
+      waiting.length = 0;
+      running.forEach(controller => controller.abort());
+      running.clear();
+    },
+    setConcurrency: (newLimit: number) => {
+      limit = Math.max(1, Math.min(MAX_CONCURRENCY, newLimit));
+      pump();
+    }
+  };
+};
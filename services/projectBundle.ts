@@ -0,0 +1,269 @@
+import { zip, unzip, strToU8, strFromU8, Zippable } from 'fflate';
+import { ResearchProject, ResearchSource, GeneratedArticle, ArticleVersion } from '../types';
+import { createProject } from './projectStore';
+
+export const BUNDLE_EXTENSION = '.rbproj';
+
+const BUNDLE_FORMAT = 'research-blender-project';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+/**
+ * A reference from the manifest to a binary entry in the archive
+ */
+interface BundledFile {
+  path: string;
+  mimeType: string;
+  fileName?: string;
+  lastModified?: number;
+}
+
+type BundledContent =
+  | { kind: 'text'; value: string }
+  | { kind: 'file'; file: BundledFile }
+  | { kind: 'blob'; file: BundledFile };
+
+type BundledSource = Omit<ResearchSource, 'originalContent' | 'thumbnail'> & {
+  originalContent: BundledContent;
+  thumbnail?: string | BundledFile;
+};
+
+type BundledArticle = Omit<GeneratedArticle, 'imageUrl' | 'generatedAt'> & {
+  imageUrl?: string | BundledFile;
+  generatedAt?: string;
+};
+
+type BundledVersion = Omit<ArticleVersion, 'article'> & {
+  article: BundledArticle;
+};
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: {
+    name: string;
+    createdAt: number;
+    sources: BundledSource[];
+    article: BundledArticle | null;
+    versions?: BundledVersion[];
+    activeVersionId?: string;
+  };
+}
+
+const DATA_URL_PATTERN = /^data:([^;,]+)?(;base64)?,(.*)$/s;
+
+const extensionFor = (mimeType: string): string => {
+  const subtype = mimeType.split('/')[1]?.split(/[+;]/)[0];
+  return subtype ? `.${subtype}` : '.bin';
+};
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const match = dataUrl.match(DATA_URL_PATTERN);
+  if (!match) throw new Error('Invalid data URL');
+  const mimeType = match[1] || 'application/octet-stream';
+  if (!match[2]) {
+    return { bytes: strToU8(decodeURIComponent(match[3])), mimeType };
+  }
+  const binary = atob(match[3]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+const isBundledFile = (value: unknown): value is BundledFile => {
+  return typeof value === 'object' && value !== null && typeof (value as BundledFile).path === 'string';
+};
+
+/**
+ * Pack a project into a single .rbproj archive (a zip with a JSON manifest
+ * and the original media, thumbnails and cover image as separate entries).
+ */
+export const exportProjectBundle = async (project: ResearchProject): Promise<Blob> => {
+  const entries: Zippable = {};
+
+  const addBytes = (path: string, bytes: Uint8Array, meta: Omit<BundledFile, 'path'>): BundledFile => {
+    entries[path] = [bytes, { level: 0 }];
+    return { path, ...meta };
+  };
+
+  // Inline data URLs (uploaded thumbnails, generated covers) become files;
+  // remote URLs such as YouTube thumbnails are kept as links. A cover shared
+  // by the article and its versions is only stored once.
+  const bundledImages = new Map<string, BundledFile>();
+  const bundleImage = (url: string | undefined, basePath: string): string | BundledFile | undefined => {
+    if (!url || !url.startsWith('data:')) return url;
+    const existing = bundledImages.get(url);
+    if (existing) return existing;
+    const { bytes, mimeType } = dataUrlToBytes(url);
+    const ref = addBytes(`${basePath}${extensionFor(mimeType)}`, bytes, { mimeType });
+    bundledImages.set(url, ref);
+    return ref;
+  };
+
+  const sources: BundledSource[] = [];
+  for (const source of project.sources) {
+    const { originalContent, thumbnail, ...rest } = source;
+    const basePath = `sources/${source.id}`;
+
+    let content: BundledContent;
+    if (typeof originalContent === 'string') {
+      content = { kind: 'text', value: originalContent };
+    } else {
+      const bytes = new Uint8Array(await originalContent.arrayBuffer());
+      const mimeType = originalContent.type || 'application/octet-stream';
+      if (originalContent instanceof File) {
+        content = {
+          kind: 'file',
+          file: addBytes(`${basePath}/original${extensionFor(mimeType)}`, bytes, {
+            mimeType,
+            fileName: originalContent.name,
+            lastModified: originalContent.lastModified
+          })
+        };
+      } else {
+        content = {
+          kind: 'blob',
+          file: addBytes(`${basePath}/original${extensionFor(mimeType)}`, bytes, { mimeType })
+        };
+      }
+    }
+
+    sources.push({
+      ...rest,
+      originalContent: content,
+      thumbnail: bundleImage(thumbnail, `${basePath}/thumbnail`)
+    });
+  }
+
+  const bundleArticle = (value: GeneratedArticle, basePath: string): BundledArticle => {
+    const { imageUrl, generatedAt, ...rest } = value;
+    return {
+      ...rest,
+      imageUrl: bundleImage(imageUrl, `${basePath}/cover`),
+      generatedAt: generatedAt ? new Date(generatedAt).toISOString() : undefined
+    };
+  };
+
+  const article = project.article ? bundleArticle(project.article, 'article') : null;
+  const versions: BundledVersion[] = project.versions.map(version => ({
+    ...version,
+    article: bundleArticle(version.article, `versions/${version.id}`)
+  }));
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: {
+      name: project.name,
+      createdAt: project.createdAt,
+      sources,
+      article,
+      versions,
+      activeVersionId: project.activeVersionId
+    }
+  };
+  entries[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  const archive = await new Promise<Uint8Array>((resolve, reject) => {
+    zip(entries, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+  return new Blob([archive], { type: 'application/zip' });
+};
+
+/**
+ * Unpack a .rbproj archive into a new (unsaved) project.
+ * The imported project always gets a fresh ID so it never overwrites
+ * an existing one.
+ */
+export const importProjectBundle = async (file: Blob): Promise<ResearchProject> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const files = await new Promise<Record<string, Uint8Array>>((resolve, reject) => {
+    unzip(data, (err, result) => (err ? reject(new Error('Not a valid project bundle.')) : resolve(result)));
+  });
+
+  if (!files[MANIFEST_PATH]) {
+    throw new Error('Project bundle is missing its manifest.');
+  }
+
+  const manifest = JSON.parse(strFromU8(files[MANIFEST_PATH])) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a Research Blender project bundle.');
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error('This project bundle was created by a newer version of Research Blender.');
+  }
+
+  const readEntry = (ref: BundledFile): Uint8Array => {
+    const bytes = files[ref.path];
+    if (!bytes) throw new Error(`Project bundle is missing ${ref.path}.`);
+    return bytes;
+  };
+
+  const unbundleImage = (value: string | BundledFile | undefined): string | undefined => {
+    if (!isBundledFile(value)) return value;
+    return bytesToDataUrl(readEntry(value), value.mimeType);
+  };
+
+  const sources: ResearchSource[] = manifest.project.sources.map(bundled => {
+    const { originalContent, thumbnail, ...rest } = bundled;
+
+    let content: ResearchSource['originalContent'];
+    if (originalContent.kind === 'text') {
+      content = originalContent.value;
+    } else if (originalContent.kind === 'file') {
+      const ref = originalContent.file;
+      content = new File([readEntry(ref)], ref.fileName || 'file', {
+        type: ref.mimeType,
+        lastModified: ref.lastModified
+      });
+    } else {
+      content = new Blob([readEntry(originalContent.file)], { type: originalContent.file.mimeType });
+    }
+
+    return {
+      ...rest,
+      originalContent: content,
+      thumbnail: unbundleImage(thumbnail)
+    };
+  });
+
+  const unbundleArticle = (value: BundledArticle): GeneratedArticle => {
+    const { imageUrl, generatedAt, ...rest } = value;
+    return {
+      ...rest,
+      imageUrl: unbundleImage(imageUrl),
+      generatedAt: generatedAt ? new Date(generatedAt) : undefined
+    };
+  };
+
+  return {
+    ...createProject(manifest.project.name),
+    createdAt: manifest.project.createdAt,
+    sources,
+    article: manifest.project.article ? unbundleArticle(manifest.project.article) : null,
+    versions: (manifest.project.versions || []).map(version => ({
+      ...version,
+      article: unbundleArticle(version.article)
+    })),
+    activeVersionId: manifest.project.activeVersionId
+  };
+};
+
+/**
+ * File name to use when downloading a project bundle
+ */
+export const bundleFileName = (project: ResearchProject): string => {
+  const slug = project.name.replace(/[^a-z0-9]/gi, '-').toLowerCase() || 'project';
+  return `${slug}${BUNDLE_EXTENSION}`;
+};
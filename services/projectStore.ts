@@ -0,0 +1,110 @@
+import { ResearchProject, ProjectSummary, ResearchSource, SourceType } from '../types';
+import { PROJECTS_STORE, withStore } from './database';
+
+const ACTIVE_PROJECT_STORAGE_KEY = 'research_blender_active_project';
+
+/**
+ * Get the ID of the last opened project from localStorage
+ */
+export const getActiveProjectId = (): string | null => {
+  return localStorage.getItem(ACTIVE_PROJECT_STORAGE_KEY);
+};
+
+/**
+ * Remember the currently opened project in localStorage
+ */
+export const setActiveProjectId = (id: string): void => {
+  localStorage.setItem(ACTIVE_PROJECT_STORAGE_KEY, id);
+};
+
+/**
+ * Create a new, empty project (not yet saved)
+ */
+export const createProject = (name = 'Untitled Project'): ResearchProject => {
+  const now = Date.now();
+  return {
+    id: `project-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    sources: [],
+    article: null,
+    versions: [],
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+/**
+ * Sources that were mid-extraction when the tab closed can't resume,
+ * so they are restored as errors the user can retry.
+ */
+const restoreSource = (source: ResearchSource): ResearchSource => {
+  // A voice recording only gets its audio once it's stopped; keep whatever was transcribed
+  if (source.status === 'processing' && source.type === SourceType.AUDIO && source.originalContent instanceof Blob && source.originalContent.size === 0) {
+    return source.extractedText
+      ? { ...source, status: 'ready', progress: undefined }
+      : { ...source, status: 'error', errorMessage: 'The recording was interrupted before anything was transcribed.', progress: undefined };
+  }
+  // Re-processing keeps the previous extraction until the new one is ready
+  if ((source.status === 'queued' || source.status === 'processing') && source.extractedText) {
+    return { ...source, status: 'ready', errorMessage: 'Re-processing was interrupted; the previous text is kept.', progress: undefined };
+  }
+  if (source.status === 'queued' || source.status === 'processing' || source.status === 'pending') {
+    return {
+      ...source,
+      status: 'error',
+      errorMessage: 'Processing was interrupted. Retry to process this source again.',
+      progress: undefined
+    };
+  }
+  return source;
+};
+
+/**
+ * Load a project by ID. File/Blob sources come back as-is thanks to
+ * IndexedDB's structured cloning.
+ */
+export const loadProject = async (id: string): Promise<ResearchProject | null> => {
+  const project = await withStore<ResearchProject | undefined>(
+    PROJECTS_STORE, 'readonly', store => store.get(id)
+  );
+  if (!project) return null;
+  return {
+    ...project,
+    sources: project.sources.map(restoreSource),
+    // Projects saved before version history existed have no versions
+    versions: project.versions || []
+  };
+};
+
+/**
+ * Save (insert or overwrite) a project
+ */
+export const saveProject = async (project: ResearchProject): Promise<ResearchProject> => {
+  const saved = { ...project, updatedAt: Date.now() };
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Delete a project
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * List all saved projects, most recently updated first
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<ResearchProject[]>(
+    PROJECTS_STORE, 'readonly', store => store.getAll()
+  );
+  return projects
+    .map(p => ({
+      id: p.id,
+      name: p.name,
+      sourceCount: p.sources.length,
+      updatedAt: p.updatedAt
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
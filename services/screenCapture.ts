@@ -0,0 +1,100 @@
+// Gemini samples video at about one frame per second, so a low frame rate loses little
+const CAPTURE_FRAME_RATE = 10;
+const CAPTURE_VIDEO_BITRATE = 1_000_000;
+
+// First one the browser can record wins
+const CAPTURE_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+
+export interface ScreenCapture {
+  // Seconds captured so far
+  elapsed: () => number;
+  // Current audio level (shared audio and mic mixed), 0 to 1
+  level: () => number;
+  // Stop and return the recording
+  stop: () => Promise<File>;
+  discard: () => void;
+}
+
+interface ScreenCaptureOptions {
+  includeMic?: boolean;
+  // The user stopped sharing from the browser's own controls
+  onEnded?: () => void;
+}
+
+export const isScreenCaptureSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+/**
+ * Record a tab, window or screen chosen by the user, with its audio when
+ * the browser shares it and optionally the microphone mixed in
+ */
+export const startScreenCapture = async (options: ScreenCaptureOptions = {}): Promise<ScreenCapture> => {
+  const display = await navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: { ideal: CAPTURE_FRAME_RATE } },
+    audio: true
+  });
+
+  let mic: MediaStream | null = null;
+  if (options.includeMic) {
+    try {
+      mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      display.getTracks().forEach(track => track.stop());
+      throw new Error('Microphone access is required to capture with your voice.');
+    }
+  }
+
+  // Shared audio and the mic are mixed into one track
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  const mix = audioContext.createMediaStreamDestination();
+  const audioStreams = [display, mic].filter((stream): stream is MediaStream => !!stream && stream.getAudioTracks().length > 0);
+  audioStreams.forEach(stream => {
+    const input = audioContext.createMediaStreamSource(stream);
+    input.connect(mix);
+    input.connect(analyser);
+  });
+  const samples = new Float32Array(analyser.fftSize);
+
+  const tracks = [...display.getVideoTracks(), ...(audioStreams.length > 0 ? mix.stream.getAudioTracks() : [])];
+  const mimeType = CAPTURE_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  const recorder = new MediaRecorder(new MediaStream(tracks), { mimeType, videoBitsPerSecond: CAPTURE_VIDEO_BITRATE });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const recorded = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: (recorder.mimeType || 'video/webm').split(';')[0] }));
+  });
+
+  display.getVideoTracks()[0]?.addEventListener('ended', () => options.onEnded?.());
+
+  // Flush every few seconds rather than holding the whole capture in the recorder
+  recorder.start(5000);
+  const startedAt = performance.now();
+
+  const release = () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+    [display, mic].forEach(stream => stream?.getTracks().forEach(track => track.stop()));
+    audioContext.close();
+  };
+
+  return {
+    elapsed: () => (performance.now() - startedAt) / 1000,
+    level: () => {
+      if (audioStreams.length === 0) return 0;
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      return Math.min(1, rms * 4);
+    },
+    stop: async () => {
+      release();
+      const blob = await recorded;
+      const extension = blob.type === 'video/mp4' ? 'mp4' : 'webm';
+      return new File([blob], `screen-capture-${new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')}.${extension}`, { type: blob.type });
+    },
+    discard: release
+  };
+};
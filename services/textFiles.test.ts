@@ -0,0 +1,25 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { readTextFile } from './textFiles';
+
+// jsdom's File has no text(); give it one that returns what it was made from
+const fileOf = (content: string, name: string, type = '') => {
+  const file = new File([content], name, { type });
+  return Object.assign(file, { text: async () => content });
+};
+
+describe('readTextFile', () => {
+  it('converts an HTML file with a quote to Markdown', async () => {
+    const html = '<html><head><title>Notes</title></head><body><h1>Notes</h1><blockquote><p>Quoted remark</p></blockquote><p>Reply</p></body></html>';
+    expect(await readTextFile(fileOf(html, 'notes.html', 'text/html'))).toBe('# Notes\n\n> Quoted remark\n\nReply');
+  });
+
+  it('recognises HTML by its extension when the browser gives no type', async () => {
+    const html = '<p>Saved <strong>page</strong></p><script>track()</script>';
+    expect(await readTextFile(fileOf(html, 'saved.htm'))).toBe('Saved **page**');
+  });
+
+  it('keeps plain text as it is', async () => {
+    expect(await readTextFile(fileOf('  <b>not HTML</b>\n', 'notes.txt'))).toBe('<b>not HTML</b>');
+  });
+});
@@ -0,0 +1,26 @@
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+export const TEXT_FILE_ACCEPT = '.txt,.md,.markdown,.html,.htm,text/plain,text/markdown,text/html';
+
+const isHtmlFile = (file: File): boolean => {
+  return file.type === 'text/html' || /\.html?$/i.test(file.name);
+};
+
+/**
+ * Whether a file can be read directly as a Text source
+ */
+export const isTextFile = (file: File): boolean => {
+  return isHtmlFile(file) || file.type === 'text/plain' || file.type === 'text/markdown' ||
+    /\.(txt|md|markdown)$/i.test(file.name);
+};
+
+/**
+ * Read a plain text, Markdown or HTML file as Markdown text.
+ * HTML is converted locally (scripts, styles and navigation are dropped),
+ * so no model call is needed.
+ */
+export const readTextFile = async (file: Blob): Promise<string> => {
+  const raw = await file.text();
+  const isHtml = file instanceof File ? isHtmlFile(file) : file.type === 'text/html';
+  return (isHtml ? htmlToMarkdown(raw) : raw).trim();
+};
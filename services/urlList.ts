@@ -0,0 +1,74 @@
+import { canonicalizeUrl } from './extractionCache';
+
+export interface ParsedUrl {
+  url: string;
+  // Link text, when the URL came from a Markdown link
+  title?: string;
+}
+
+export interface ParsedUrlList {
+  urls: ParsedUrl[];
+  // Pieces of the input that don't look like web links
+  invalid: string[];
+}
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\(\s*<?([^\s)>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+// Bullets and numbers of a pasted list
+const LIST_MARKER = /^([-*•]|\d+[.)])$/;
+
+// Punctuation that trails a URL in prose rather than belonging to it
+const TRAILING_PUNCTUATION = /[.,;:!?)\]>'"]+$/;
+
+const normalizeUrl = (token: string): string | null => {
+  const candidate = token.replace(/^<|>$/g, '').replace(TRAILING_PUNCTUATION, '');
+  const withScheme = /^www\./i.test(candidate) ? `https://${candidate}` : candidate;
+  try {
+    const parsed = new URL(withScheme);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Split pasted text into URLs. Accepts one URL per line, comma or space
+ * separated lists and Markdown links (whose text becomes the title).
+ * Repeats of the same page are dropped.
+ */
+export const parseUrlList = (text: string): ParsedUrlList => {
+  const found: ParsedUrl[] = [];
+  const invalid: string[] = [];
+
+  // Markdown links are swapped for placeholders so the list keeps its order
+  const links: string[][] = [];
+  const rest = text.replace(MARKDOWN_LINK, (_match, title: string, href: string) => {
+    links.push([title, href]);
+    return ` \u0000${links.length - 1} `;
+  });
+
+  for (const token of rest.split(/[\s,]+/)) {
+    if (!token || LIST_MARKER.test(token)) continue;
+    const link = token.match(/^\u0000(\d+)$/);
+    if (link) {
+      const [title, href] = links[Number(link[1])];
+      const url = normalizeUrl(href);
+      if (url) found.push({ url, title: title.trim() || undefined });
+      else invalid.push(href);
+      continue;
+    }
+    const url = normalizeUrl(token);
+    if (url) found.push({ url });
+    // Only report words that look like an attempted link, not surrounding prose
+    else if (/[./]/.test(token)) invalid.push(token);
+  }
+
+  const seen = new Set<string>();
+  const urls = found.filter(({ url }) => {
+    const key = canonicalizeUrl(url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { urls, invalid };
+};
@@ -0,0 +1,182 @@
+import { TranscriptSegment } from '../types';
+import * as GeminiService from './geminiService';
+import { formatDuration } from './audioFiles';
+
+// Each segment is a separate recording, so it can be transcribed while the next one records
+export const SEGMENT_SECONDS = 60;
+
+// A segment that fails is tried once more before it's marked as missing
+const SEGMENT_ATTEMPTS = 2;
+
+const TICK_MS = 250;
+
+export interface LiveTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  failedParts: number;
+}
+
+export interface VoiceRecording {
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  // Seconds recorded so far, not counting pauses
+  elapsed: () => number;
+  // Current input level, 0 to 1
+  level: () => number;
+  // Stop, wait for the remaining segments to be transcribed and return the whole recording
+  stop: () => Promise<{ file: File; transcript: LiveTranscript }>;
+  // Stop without waiting for or reporting any more transcripts
+  discard: () => void;
+}
+
+interface VoiceRecordingOptions {
+  // Called with the transcript so far each time a segment has been transcribed
+  onTranscript: (transcript: LiveTranscript) => void;
+  segmentSeconds?: number;
+}
+
+/**
+ * Join segment transcripts in order, each headed by the time it starts at
+ */
+export const stitchTranscript = (segments: TranscriptSegment[]): string =>
+  segments.map(segment => `[${formatDuration(segment.start)}]\n${segment.text.trim()}`).join('\n\n');
+
+const recordedType = (recorder: MediaRecorder) => (recorder.mimeType || 'audio/webm').split(';')[0];
+
+/**
+ * Resolves with everything the recorder captured once it has stopped
+ */
+const collectRecording = (recorder: MediaRecorder): Promise<Blob> => {
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  return new Promise(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recordedType(recorder) }));
+  });
+};
+
+/**
+ * Record from the microphone. Two recorders share the stream: one keeps the
+ * whole recording as a single playable file, the other is restarted every
+ * `segmentSeconds` so each segment can be transcribed in the background.
+ * Segments are transcribed one at a time, in order, and stitched together
+ * with their start times.
+ */
+export const startVoiceRecording = async (options: VoiceRecordingOptions): Promise<VoiceRecording> => {
+  const segmentSeconds = options.segmentSeconds ?? SEGMENT_SECONDS;
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const controller = new AbortController();
+
+  const audioContext = new AudioContext();
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = 1024;
+  audioContext.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  // Time is counted per run between pauses
+  let recordedBefore = 0;
+  let runStartedAt: number | null = performance.now();
+  const elapsed = () => recordedBefore + (runStartedAt === null ? 0 : (performance.now() - runStartedAt) / 1000);
+
+  const transcript: LiveTranscript = { text: '', segments: [], failedParts: 0 };
+  let transcribing = Promise.resolve();
+
+  const transcribeSegment = (blob: Blob, index: number, start: number, duration: number) => {
+    transcribing = transcribing.then(async () => {
+      let text = '';
+      for (let attempt = 1; attempt <= SEGMENT_ATTEMPTS && !text; attempt++) {
+        if (controller.signal.aborted) return;
+        try {
+          // A recording that ends within its first segment is transcribed like any short clip
+          const part = stopping && segmentCount === 1 ? undefined : { index: index + 1 };
+          text = await GeminiService.transcribeAudio(blob, { part, signal: controller.signal });
+        } catch (e) {
+          console.error(`Could not transcribe recording segment ${index + 1}:`, e);
+        }
+      }
+      if (controller.signal.aborted) return;
+
+      if (!text) transcript.failedParts++;
+      transcript.segments = [...transcript.segments, { start, duration, text: text || '(This part could not be transcribed)' }];
+      transcript.text = stitchTranscript(transcript.segments);
+      options.onTranscript({ ...transcript });
+    });
+  };
+
+  const full = new MediaRecorder(stream);
+  const fullRecording = collectRecording(full);
+  full.start();
+
+  let segment: { recorder: MediaRecorder; start: number; done: Promise<void> };
+  let segmentCount = 0;
+  let stopping = false;
+  const startSegment = () => {
+    const recorder = new MediaRecorder(stream);
+    const index = segmentCount++;
+    const start = elapsed();
+    const done = collectRecording(recorder).then(blob => {
+      if (blob.size > 0) transcribeSegment(blob, index, start, elapsed() - start);
+    });
+    recorder.start();
+    segment = { recorder, start, done };
+  };
+  startSegment();
+
+  const timer = setInterval(() => {
+    if (runStartedAt !== null && elapsed() - segment.start >= segmentSeconds) {
+      segment.recorder.stop();
+      startSegment();
+    }
+  }, TICK_MS);
+
+  const release = () => {
+    clearInterval(timer);
+    [full, segment.recorder].forEach(recorder => recorder.state !== 'inactive' && recorder.stop());
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close();
+  };
+
+  return {
+    pause: () => {
+      if (runStartedAt === null) return;
+      recordedBefore = elapsed();
+      runStartedAt = null;
+      full.pause();
+      segment.recorder.pause();
+    },
+    resume: () => {
+      if (runStartedAt !== null) return;
+      runStartedAt = performance.now();
+      full.resume();
+      segment.recorder.resume();
+    },
+    isPaused: () => runStartedAt === null,
+    elapsed,
+    level: () => {
+      if (runStartedAt === null) return 0;
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      // Speech rarely goes above 0.25 RMS
+      return Math.min(1, rms * 4);
+    },
+    stop: async () => {
+      const duration = elapsed();
+      stopping = true;
+      runStartedAt = null;
+      recordedBefore = duration;
+      release();
+      const blob = await fullRecording;
+      await segment.done;
+      await transcribing;
+      const extension = blob.type.includes('mp4') ? 'm4a' : blob.type.split('/')[1] || 'webm';
+      const file = new File([blob], `voice-recording-${new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')}.${extension}`, { type: blob.type });
+      return { file, transcript: { ...transcript } };
+    },
+    discard: () => {
+      controller.abort();
+      release();
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { htmlToMarkdown } from './htmlToMarkdown';
+
+export interface WebArticle {
+  // Final URL after redirects
+  url: string;
+  title?: string;
+  author?: string;
+  publishedAt?: string; // YYYY-MM-DD
+  siteName?: string;
+  markdown: string;
+}
+
+/**
+ * Ask the server to download a page and run Readability on it
+ */
+const requestArticle = async (url: string): Promise<any> => {
+  const response = await fetch('/api/web/article', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url })
+  });
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Could not read the page (server returned ${response.status})`);
+  }
+  if (!data.success) {
+    throw new Error(data.error || 'Could not read the page');
+  }
+  return data;
+};
+
+/**
+ * Download a page via the server and keep its main content (found with
+ * Readability) as Markdown with headings, quotes, lists and links.
+ * Resolves to null when the page can't be fetched or has no article text;
+ * errors converting a fetched article are thrown.
+ */
+export const fetchWebArticle = async (url: string): Promise<WebArticle | null> => {
+  let data: any;
+  try {
+    data = await requestArticle(url);
+  } catch (e) {
+    console.warn('Could not fetch the page directly:', e);
+    return null;
+  }
+
+  const markdown = htmlToMarkdown(data.content, { keepLinks: true, baseUrl: data.url || url });
+  if (!markdown.trim()) {
+    console.warn('The page has no readable text:', url);
+    return null;
+  }
+
+  return {
+    url: data.url || url,
+    title: data.title || undefined,
+    author: data.author || undefined,
+    publishedAt: data.published_at || undefined,
+    siteName: data.site_name || undefined,
+    markdown
+  };
+};
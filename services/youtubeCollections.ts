@@ -0,0 +1,57 @@
+export interface CollectionVideo {
+  videoId: string;
+  title: string;
+  duration: number | null; // seconds
+  url: string;
+}
+
+export interface YoutubeCollection {
+  kind: 'playlist' | 'channel';
+  title: string;
+  videos: CollectionVideo[];
+  // More videos exist than the server returned
+  truncated: boolean;
+}
+
+/**
+ * Whether a URL is a YouTube playlist or channel page rather than a single
+ * video. Watch URLs that carry a list= parameter count as single videos.
+ */
+export const isYoutubeCollectionUrl = (url: string): boolean => {
+  try {
+    const parsed = new URL(url);
+    if (!/(^|\.)youtube\.com$/.test(parsed.hostname)) return false;
+    if (parsed.pathname === '/playlist') return parsed.searchParams.has('list');
+    return /^\/(channel\/UC[\w-]{22}|@[^/]+|c\/[^/]+|user\/[^/]+)/.test(parsed.pathname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * List the videos of a playlist or channel via the server
+ */
+export const fetchYoutubeCollection = async (url: string): Promise<YoutubeCollection> => {
+  const response = await fetch('/api/youtube/playlist', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url })
+  });
+
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new Error(`Could not list videos (server returned ${response.status})`);
+  }
+  if (!data.success) {
+    throw new Error(data.error || 'Could not list videos');
+  }
+
+  return {
+    kind: data.kind,
+    title: data.title,
+    videos: data.videos,
+    truncated: !!data.truncated
+  };
+};
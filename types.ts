@@ -3,7 +3,42 @@ export enum SourceType {
   URL = 'URL',
   VIDEO = 'Video',
   IMAGE = 'Image',
-  AUDIO = 'Audio'
+  AUDIO = 'Audio',
+  DOCUMENT = 'Document',
+  PRESENTATION = 'Presentation',
+  EBOOK = 'E-book'
+}
+
+// One caption line, with times in seconds
+export interface TranscriptSegment {
+  start: number;
+  duration: number;
+  text: string;
+}
+
+// What an image is analyzed for: a general description, verbatim text,
+// chart and table data, or a diagram's structure
+export type ImageAnalysisMode = 'general' | 'ocr' | 'chart' | 'diagram';
+
+// A caption track YouTube offers for a video
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;
+  isGenerated: boolean; // Auto-generated (ASR) rather than uploaded
+  isTranslatable: boolean;
+}
+
+export interface CaptionTrackList {
+  tracks: CaptionTrack[];
+  // Languages YouTube can machine-translate translatable tracks into
+  translationLanguages: { languageCode: string; name: string }[];
+}
+
+// Which caption track to fetch; empty means the default (English or first available)
+export interface CaptionOptions {
+  language?: string;
+  isGenerated?: boolean;
+  translateTo?: string;
 }
 
 export interface ResearchSource {
@@ -12,14 +47,46 @@ export interface ResearchSource {
   title: string;
   originalContent: string | Blob | File;
   extractedText: string;
-  status: 'pending' | 'processing' | 'ready' | 'error';
+  originalText?: string; // The machine extraction, kept while extractedText holds the user's corrections
+  status: 'queued' | 'pending' | 'processing' | 'ready' | 'error';
   errorMessage?: string;
+  progress?: string; // What a long extraction is doing, e.g. "Transcribing part 2 of 5"
   thumbnail?: string; // For YouTube videos
+  segments?: TranscriptSegment[]; // Timed captions for YouTube videos, or the parts of a voice recording
   metadata?: {
     url?: string;
     fileName?: string;
     duration?: number;
     wordCount?: number;
+    cacheKey?: string;
+    fromCache?: boolean;
+    contentKey?: string;
+    mergedFrom?: string[];
+    pageCount?: number;
+    pageOffsets?: number[]; // Character offset in extractedText where each page starts
+    extractionMethod?: 'text-layer' | 'gemini' | 'readability' | 'search-grounding';
+    sectionCount?: number;
+    slideCount?: number;
+    chapterCount?: number;
+    captionOptions?: CaptionOptions; // Caption track chosen when the video was added
+    captionLanguage?: string; // Language of the fetched transcript
+    captionGenerated?: boolean;
+    captionTranslatedFrom?: string; // Original track language when YouTube translated it
+    channel?: string;
+    channelId?: string;
+    publishedAt?: string; // YYYY-MM-DD
+    viewCount?: number;
+    description?: string;
+    author?: string;
+    siteName?: string;
+    audioUrl?: string; // Podcast enclosure
+    podcast?: string; // Show name
+    episodeTitle?: string;
+    showNotes?: string;
+    imageMode?: ImageAnalysisMode;
+    humanEdited?: boolean; // extractedText was corrected by hand; the blend uses it as is
+    extractionModel?: string; // Model picked with "Re-process with...", instead of the default for the type
+    extractionInstructions?: string; // Added to the extraction prompt
   };
 }
 
@@ -32,9 +99,50 @@ export interface GeneratedArticle {
   generatedAt?: Date;
 }
 
+export interface BlendSettings {
+  model: string;
+}
+
+export interface ArticleVersion {
+  id: string;
+  article: GeneratedArticle;
+  createdAt: number;
+  sourceIds: string[];
+  settings: BlendSettings;
+}
+
 export interface BlenderState {
   sources: ResearchSource[];
   isBlending: boolean;
   article: GeneratedArticle | null;
   error: string | null;
 }
+
+export interface ResearchProject {
+  id: string;
+  name: string;
+  sources: ResearchSource[];
+  article: GeneratedArticle | null;
+  versions: ArticleVersion[];
+  activeVersionId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  sourceCount: number;
+  updatedAt: number;
+}
+
+export interface CachedExtraction {
+  key: string;
+  model: string;
+  extractedText: string;
+  thumbnail?: string;
+  title?: string;
+  segments?: TranscriptSegment[];
+  metadata?: ResearchSource['metadata'];
+  createdAt: number;
+}